@@ -1,37 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { formatDocumentsForPrompt, normalizeRequirements, orderDocuments, DOCUMENT_ROLE_LABELS } from '@/lib/documents';
+import { redactDocuments, redactionTermsFor } from '@/lib/redaction';
+import { chunkDocuments, mergeRequirements } from '@/lib/chunks';
+import { numberDeliverables } from '@/lib/coverage';
+import { eventStream } from '@/lib/sse';
+import { SECTION_LABELS } from '@/lib/sections';
+import { completeJSON } from '@/lib/llm';
+import { AnalysisReplySchema, AnalysisSummaryReplySchema, ChunkReplySchema } from '@/lib/schemas';
+import { AnalysisProgress, Requirement, SOWAnalysis, SOWDocument } from '@/lib/types';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+const SECTION_GUIDANCE = `Where a document has been split into typed <section> elements:
+- Take deliverables from "scope" and "deliverables" sections; use "milestones" and "acceptance" only to clarify them
+- Items in "outOfScope" sections are explicitly excluded - NEVER list them as deliverables or requirements
+- "assumptions" describe the client environment, not work to be built
+- Pricing sections have been omitted
 
-export async function POST(request: NextRequest) {
-  try {
-    const { sowContent } = await request.json();
-
-    if (!sowContent || typeof sowContent !== 'string') {
-      return NextResponse.json(
-        { error: 'SOW content is required' },
-        { status: 400 }
-      );
-    }
+Confidential values (names, contacts, amounts) have been replaced with placeholders such as [ORG_1] or [PERSON_2]. Keep placeholders exactly as written when you refer to them, and never guess the original values.`;
 
-    // Create the analysis prompt
-    const prompt = `You are analyzing a Statement of Work (SOW) document to help find relevant open-source GitHub repositories that could accelerate project delivery.
+const REQUIREMENTS_FORMAT = `  "deliverables": [{ "text": "Core deliverable", "priority": "must", "source": "doc1", "page": 2, "quote": "exact words from the document" }],
+  "technicalRequirements": [{ "text": "Technical requirement or tech stack mentioned", "source": "doc1", "page": 3, "quote": "exact words from the document" }],
+  "integrations": [{ "text": "Third-party integration or platform mentioned", "source": "doc2", "page": null, "quote": "exact words from the document" }]`;
 
-Analyze the following SOW and extract key information:
+const CITATION_GUIDANCE = `Every deliverable, technical requirement and integration must cite where it is stated:
+- "source": the id of the <document> that states it in its final form
+- "quote": 5-25 consecutive words copied VERBATIM from that document (do not paraphrase, do not include [Page N] markers)
+- "page": the number of the nearest [Page N] marker before the quote, or null if the document has no page markers
 
-<sow>
-${sowContent}
-</sow>
+Every deliverable also gets a "priority":
+- "must": core to the project, or stated as required
+- "should": expected, but the project works without it
+- "could": optional, nice-to-have, or deferred to a later phase`;
 
-Provide your analysis in the following JSON format:
-{
-  "projectType": "Brief description of the project type (e.g., 'Appointment scheduling system for multi-location service business')",
-  "deliverables": ["List", "of", "core", "deliverables"],
-  "technicalRequirements": ["List", "of", "technical", "requirements", "or", "tech", "stack", "mentioned"],
-  "integrations": ["List", "of", "third-party", "integrations", "or", "platforms", "mentioned"],
-  "questions": [
+const QUESTIONS_FORMAT = `  "questions": [
     {
       "id": "q1",
       "question": "Context-specific question based on the SOW?",
@@ -42,10 +42,9 @@ Provide your analysis in the following JSON format:
       "question": "Another context-specific question?",
       "options": ["Option 1", "Option 2", "Option 3"]
     }
-  ]
-}
+  ]`;
 
-IMPORTANT GUIDELINES FOR QUESTIONS:
+const QUESTION_GUIDANCE = `IMPORTANT GUIDELINES FOR QUESTIONS:
 - Generate 2-4 questions that are SPECIFIC to this SOW content
 - Questions should help narrow down the best GitHub repositories
 - Ask about ambiguities or gaps in the SOW (e.g., tech stack if not mentioned, deployment preference, priority between features)
@@ -53,6 +52,7 @@ IMPORTANT GUIDELINES FOR QUESTIONS:
 - Questions should be contextual and intelligent
 - Each question should have 2-4 answer options
 - Options should be concise (1-4 words each)
+- If the SOW does not say how the deliverable reaches its users, ask (options such as "Closed-source product", "Hosted SaaS", "Internal use only", "Open source"): it decides which licenses can be reused
 
 Examples of GOOD questions:
 - "The SOW mentions scheduling but no specific tech stack - preferred framework?" (if tech not specified)
@@ -61,44 +61,46 @@ Examples of GOOD questions:
 
 Examples of BAD questions:
 - "What programming language?" (too generic)
-- "Do you want a good solution?" (not useful)
+- "Do you want a good solution?" (not useful)`;
 
-Return ONLY valid JSON, no additional text.`;
-
-    // Call Claude API
-    const message = await anthropic.messages.create({
-      model: 'claude-3-5-haiku-20241022',
-      max_tokens: 2048,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
+export async function POST(request: NextRequest) {
+  try {
+    const { documents: uploadedDocuments, redactionTerms } = await request.json() as {
+      documents?: SOWDocument[];
+      redactionTerms?: string[];
+    };
 
-    // Extract the response
-    const responseText = message.content[0].type === 'text'
-      ? message.content[0].text
-      : '';
-
-    // Parse the JSON response
-    let analysis;
-    try {
-      analysis = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error('Failed to parse LLM response:', responseText);
-      throw new Error('Failed to parse analysis response');
+    if (!Array.isArray(uploadedDocuments) || uploadedDocuments.length === 0 || uploadedDocuments.some(doc => !doc?.content)) {
+      return NextResponse.json(
+        { error: 'SOW content is required' },
+        { status: 400 }
+      );
     }
 
-    // Validate the response structure
-    if (!analysis.projectType || !analysis.deliverables || !analysis.questions) {
-      throw new Error('Invalid analysis response structure');
-    }
+    // Redact client-confidential data - nothing below sees the original text
+    const { documents, redactions } = redactDocuments(uploadedDocuments, redactionTermsFor(redactionTerms));
+
+    // Long SOWs are analyzed chunk by chunk, so progress is streamed
+    return eventStream(async (send) => {
+      try {
+        const chunks = chunkDocuments(documents);
+        const analysis = chunks.length === 1
+          ? await analyzeSinglePass(documents, (progress) => send('progress', progress))
+          : await analyzeInChunks(documents, chunks, (progress) => send('progress', progress));
 
-    return NextResponse.json({
-      success: true,
-      analysis,
+        send('result', {
+          success: true,
+          analysis,
+          redactions,
+        });
+      } catch (error) {
+        console.error('Analysis error:', error);
+        send('error', {
+          error: error instanceof Error
+            ? error.message
+            : 'Failed to analyze SOW'
+        });
+      }
     });
 
   } catch (error) {
@@ -113,3 +115,214 @@ Return ONLY valid JSON, no additional text.`;
     );
   }
 }
+
+type ReportProgress = (progress: AnalysisProgress) => void;
+
+/**
+ * Analyze a project that fits in one prompt: requirements and questions in
+ * a single call
+ */
+async function analyzeSinglePass(documents: SOWDocument[], report: ReportProgress): Promise<SOWAnalysis> {
+  report({ stage: 'extracting', completed: 0, total: 1 });
+
+  // Create the analysis prompt
+  const prompt = `You are analyzing a Statement of Work (SOW) document to help find relevant open-source GitHub repositories that could accelerate project delivery.
+
+Analyze the following SOW and extract key information:
+
+<sow>
+${formatDocumentsForPrompt(documents)}
+</sow>
+${documentGuidance(documents)}
+${SECTION_GUIDANCE}
+
+Provide your analysis in the following JSON format:
+{
+  "projectType": "Brief description of the project type (e.g., 'Appointment scheduling system for multi-location service business')",
+${REQUIREMENTS_FORMAT},
+${QUESTIONS_FORMAT}
+}
+
+${CITATION_GUIDANCE}
+
+${QUESTION_GUIDANCE}
+
+Return ONLY valid JSON, no additional text.`;
+
+  const analysis = await completeJSON('analysis', prompt, AnalysisReplySchema, { maxTokens: 4096 });
+
+  report({ stage: 'extracting', completed: 1, total: 1 });
+
+  // Resolve sources and guard against exclusions leaking into the lists
+  return {
+    projectType: analysis.projectType,
+    deliverables: numberDeliverables(normalizeRequirements(analysis.deliverables, documents, true)),
+    technicalRequirements: normalizeRequirements(analysis.technicalRequirements, documents, true),
+    integrations: normalizeRequirements(analysis.integrations, documents),
+    questions: analysis.questions,
+    degraded: false,
+  };
+}
+
+/**
+ * Map-reduce analysis for projects that exceed one prompt: requirements are
+ * extracted from each chunk in parallel and merged, then the project type
+ * and questions are generated from the merged view. A chunk whose reply
+ * cannot be validated is skipped and the analysis marked as degraded.
+ */
+async function analyzeInChunks(
+  documents: SOWDocument[],
+  chunks: SOWDocument[][],
+  report: ReportProgress
+): Promise<SOWAnalysis> {
+  let completed = 0;
+  report({ stage: 'extracting', completed, total: chunks.length });
+
+  // Map: extract requirements per chunk. Citations and exclusions are
+  // resolved against the full documents, not just the chunk.
+  const results = await Promise.all(
+    chunks.map(async (chunk, idx) => {
+      try {
+        const result = await completeJSON(
+          'analysis',
+          buildChunkPrompt(chunk, documents, idx + 1, chunks.length),
+          ChunkReplySchema,
+          { maxTokens: 4096 }
+        );
+
+        return {
+          projectType: result.projectType,
+          deliverables: normalizeRequirements(result.deliverables, documents, true),
+          technicalRequirements: normalizeRequirements(result.technicalRequirements, documents, true),
+          integrations: normalizeRequirements(result.integrations, documents),
+        };
+      } catch (error) {
+        console.error(`Analysis of part ${idx + 1} of ${chunks.length} failed:`, error);
+        return null;
+      } finally {
+        completed += 1;
+        report({ stage: 'extracting', completed, total: chunks.length });
+      }
+    })
+  );
+
+  const extractions = results.filter((result): result is NonNullable<typeof result> => result !== null);
+  if (extractions.length === 0) {
+    throw new Error('Failed to analyze any part of the SOW');
+  }
+
+  // Reduce: merge and de-duplicate across chunks
+  report({ stage: 'merging', completed, total: chunks.length });
+
+  // Deliverables are numbered once merged, in project order
+  const merged = {
+    deliverables: numberDeliverables(mergeRequirements(extractions.map(extraction => extraction.deliverables), documents)),
+    technicalRequirements: mergeRequirements(extractions.map(extraction => extraction.technicalRequirements), documents),
+    integrations: mergeRequirements(extractions.map(extraction => extraction.integrations), documents),
+  };
+
+  if (merged.deliverables.length === 0) {
+    throw new Error('No deliverables found in the SOW');
+  }
+
+  const summary = await completeJSON(
+    'analysis',
+    buildSummaryPrompt(
+      merged,
+      extractions.map(extraction => extraction.projectType).filter(Boolean),
+      documents
+    ),
+    AnalysisSummaryReplySchema
+  );
+
+  return {
+    projectType: summary.projectType,
+    ...merged,
+    questions: summary.questions,
+    degraded: extractions.length < chunks.length,
+  };
+}
+
+function documentGuidance(documents: SOWDocument[]): string {
+  if (documents.length <= 1) return '';
+
+  return `
+The project consists of ${documents.length} documents, listed in order of precedence (master SOW first, later documents after):
+- Later documents win: when an addendum or change order adds, changes or removes a clause from an earlier document, apply the change and report only the final version
+- Requirements removed by a later document must not appear at all
+- Technical appendices add detail to the master SOW; they do not override it
+`;
+}
+
+function buildChunkPrompt(chunk: SOWDocument[], documents: SOWDocument[], part: number, total: number): string {
+  return `You are analyzing a Statement of Work (SOW) to help find relevant open-source GitHub repositories that could accelerate project delivery.
+
+The SOW is too long to analyze at once, so it has been split into ${total} parts. This is part ${part} of ${total}. Extract the requirements stated in THIS part only; the other parts are analyzed separately and the results merged afterwards.
+
+<sow part="${part}" of="${total}">
+${formatDocumentsForPrompt(chunk, documents)}
+</sow>
+${documentGuidance(documents)}
+${SECTION_GUIDANCE}
+
+Provide your analysis in the following JSON format:
+{
+  "projectType": "Brief description of the project type, as far as this part shows it",
+${REQUIREMENTS_FORMAT}
+}
+
+${CITATION_GUIDANCE}
+
+Lists may be empty when this part states no requirements of that kind (e.g. it only contains background or milestones).
+
+Return ONLY valid JSON, no additional text.`;
+}
+
+function buildSummaryPrompt(
+  merged: Pick<SOWAnalysis, 'deliverables' | 'technicalRequirements' | 'integrations'>,
+  projectTypes: string[],
+  documents: SOWDocument[]
+): string {
+  const list = (items: Requirement[]) =>
+    items.length > 0 ? items.map(item => `- ${item.text}`).join('\n') : '- (none)';
+
+  const outline = orderDocuments(documents)
+    .map(doc => {
+      const headings = doc.outline
+        .filter(section => section.heading)
+        .map(section => `  - ${section.heading} (${SECTION_LABELS[section.type]})`);
+      return [`- ${doc.filename} (${DOCUMENT_ROLE_LABELS[doc.role]})`, ...headings].join('\n');
+    })
+    .join('\n');
+
+  return `You are helping find relevant open-source GitHub repositories that could accelerate delivery of a project described by a long Statement of Work (SOW).
+
+The SOW was analyzed in parts. These are the merged results.
+
+Document outline:
+${outline}
+
+Project type as described by each part:
+${projectTypes.map(projectType => `- ${projectType}`).join('\n')}
+
+Deliverables:
+${list(merged.deliverables)}
+
+Technical requirements:
+${list(merged.technicalRequirements)}
+
+Integrations:
+${list(merged.integrations)}
+
+Confidential values have been replaced with placeholders such as [ORG_1]. Keep placeholders exactly as written.
+
+Provide the following JSON:
+{
+  "projectType": "Brief description of the whole project (e.g., 'Appointment scheduling system for multi-location service business')",
+${QUESTIONS_FORMAT}
+}
+
+${QUESTION_GUIDANCE}
+
+Return ONLY valid JSON, no additional text.`;
+}
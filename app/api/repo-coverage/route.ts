@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Redaction, RepoResult, SOWAnalysis } from '@/lib/types';
+import { redactContext, resolveAnswers } from '@/lib/context';
+import { parseRedactions, redactionTermsFor } from '@/lib/redaction';
+import { analyzeCoverage, isRelevant } from '@/lib/assess';
+import { assessResultHealth } from '@/lib/health';
+
+/**
+ * Re-run the coverage analysis for a single search result, e.g. one whose
+ * analysis failed during the search
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { repo, analysis, questionAnswers, additionalContext, redactionTerms, redactions } = await request.json() as {
+      repo?: RepoResult;
+      analysis?: SOWAnalysis;
+      questionAnswers?: Record<string, string>;
+      additionalContext?: string;
+      redactionTerms?: string[];
+      redactions?: Redaction[];
+    };
+
+    if (!repo?.fullName || !analysis) {
+      return NextResponse.json(
+        { error: 'Repository and analysis are required' },
+        { status: 400 }
+      );
+    }
+
+    const { answers, additionalContext: context, redactions: added } = redactContext(
+      resolveAnswers(analysis.questions || [], questionAnswers),
+      additionalContext,
+      { customTerms: redactionTermsFor(redactionTerms), known: parseRedactions(redactions) }
+    );
+    const coverage = await analyzeCoverage(repo, analysis, answers, context);
+    const result: RepoResult = {
+      ...repo,
+      ...coverage,
+      health: isRelevant(coverage) ? repo.health ?? await assessResultHealth(repo) : null,
+    };
+
+    return NextResponse.json({
+      success: true,
+      repo: result,
+      relevant: isRelevant(result),
+      redactions: added,
+    });
+
+  } catch (error) {
+    console.error('Coverage error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error
+          ? error.message
+          : 'Failed to analyze coverage'
+      },
+      { status: 500 }
+    );
+  }
+}
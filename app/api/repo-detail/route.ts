@@ -1,18 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Octokit } from '@octokit/rest';
-import Anthropic from '@anthropic-ai/sdk';
-
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-});
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import {
+  DependencyReport,
+  DocSection,
+  HealthReport,
+  IntegrationCheck,
+  LicenseAssessment,
+  RepoFingerprint,
+  SOWAnalysis,
+} from '@/lib/types';
+import { formatContextForPrompt, redactContext, resolveAnswers } from '@/lib/context';
+import { parseRedactions, redactionTermsFor } from '@/lib/redaction';
+import { completeJSON } from '@/lib/llm';
+import { RepoDetailReplySchema } from '@/lib/schemas';
+import { fetchRepoTree, octokit } from '@/lib/github';
+import { readManifests } from '@/lib/manifests';
+import { fetchRepoDocs, formatDocSections, resolveCoverSources, selectSections } from '@/lib/readme';
+import { analyzeDependencies, formatDependencyReport } from '@/lib/dependencies';
+import { fingerprintRepo, formatFingerprint } from '@/lib/fingerprint';
+import { formatIntegrationChecks, verifyIntegrations } from '@/lib/integrations';
+import { assessHealth, formatHealth } from '@/lib/health';
+import { assessLicense, formatLicenseAssessment, resolveDistributionModel } from '@/lib/licenses';
 
 export async function POST(request: NextRequest) {
   try {
-    const { owner, name, analysis } = await request.json();
+    const {
+      owner,
+      name,
+      analysis,
+      questionAnswers,
+      additionalContext,
+      distributionModel,
+      redactionTerms,
+      redactions,
+    } = await request.json();
 
     if (!owner || !name) {
       return NextResponse.json(
@@ -22,31 +42,67 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch repo details
-    const [repoData, contributorsData, readmeData] = await Promise.all([
+    const [repoData, contributorsData] = await Promise.all([
       octokit.repos.get({ owner, repo: name }),
       octokit.repos.listContributors({ owner, repo: name, per_page: 100 }),
-      fetchReadme(owner, name),
     ]);
 
     const repo = repoData.data;
+    const ref = repo.default_branch;
+    const { entries: tree, truncated } = await fetchRepoTree(owner, name, ref);
 
-    // Assess health status
-    const daysSinceUpdate = Math.floor(
-      (Date.now() - new Date(repo.updated_at).getTime()) / (1000 * 60 * 60 * 24)
+    // Full README and docs, and the dependency manifests
+    const [docs, manifests] = await Promise.all([
+      fetchRepoDocs(owner, name, { fullName: repo.full_name, ref, tree }),
+      readManifests(owner, name, ref, tree),
+    ]);
+
+    // The README and docs sections about the deliverables
+    const docSections = selectSections(
+      docs.sections,
+      (analysis?.deliverables ?? []).map((item: { text: string }) => item.text)
     );
 
-    let healthStatus: 'active' | 'stale' | 'abandoned' = 'active';
-    if (daysSinceUpdate > 365) {
-      healthStatus = 'abandoned';
-    } else if (daysSinceUpdate > 90) {
-      healthStatus = 'stale';
-    }
+    // Tests, CI, Docker, docs and size, for judging how finished the repository is
+    const fingerprint = fingerprintRepo({ entries: tree, truncated }, manifests);
+
+    const [integrations, dependencies, health] = await Promise.all([
+      // Check the SOW's integrations against what the repository contains
+      verifyIntegrations(
+        { fullName: repo.full_name, ref },
+        (analysis?.integrations ?? []).map((item: { text: string }) => item.text),
+        { manifests, tree, readme: docs.readme }
+      ),
+      // Runtimes, frameworks and outdated packages the repository would bring in
+      manifests.length > 0 ? analyzeDependencies(manifests) : null,
+      // Assess health from commits, releases, issue handling and contributors
+      assessHealth(owner, name, {
+        archived: repo.archived,
+        contributors: contributorsData.data,
+      }),
+    ]);
+
+    // Check the license against how the deliverable will be distributed
+    // Answers and context are redacted like the SOW before the prompt sees them
+    const { answers, additionalContext: context, redactions: added } = redactContext(
+      resolveAnswers(analysis?.questions || [], questionAnswers),
+      additionalContext,
+      { customTerms: redactionTermsFor(redactionTerms), known: parseRedactions(redactions) }
+    );
+    const spdxId = repo.license?.spdx_id && repo.license.spdx_id !== 'NOASSERTION' ? repo.license.spdx_id : null;
+    const license = assessLicense(spdxId, resolveDistributionModel(distributionModel, answers, context));
 
     // Generate README summary and fit analysis
     const aiAnalysis = await generateDetailedAnalysis(
       repo,
-      readmeData,
-      analysis
+      docSections,
+      analysis,
+      formatContextForPrompt(answers, context),
+      integrations,
+      health,
+      license,
+      dependencies,
+      fingerprint
     );
 
     const repoDetail = {
@@ -60,14 +116,26 @@ export async function POST(request: NextRequest) {
       openIssues: repo.open_issues_count,
       contributors: contributorsData.data.length,
       lastCommit: repo.pushed_at,
-      healthStatus,
+      health,
+      license,
       readmeSummary: aiAnalysis.readmeSummary,
-      fitAnalysis: aiAnalysis.fitAnalysis,
+      docSections,
+      integrations,
+      dependencies,
+      fingerprint,
+      fitAnalysis: {
+        ...aiAnalysis.fitAnalysis,
+        ...resolveCoverSources(aiAnalysis.fitAnalysis.covers, docSections),
+        // Dependency risks come from the manifests, not from the model
+        risks: [...(dependencies?.risks ?? []), ...aiAnalysis.fitAnalysis.risks],
+      },
+      degraded: aiAnalysis.degraded,
     };
 
     return NextResponse.json({
       success: true,
       detail: repoDetail,
+      redactions: added,
     });
 
   } catch (error) {
@@ -83,25 +151,17 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function fetchReadme(owner: string, name: string): Promise<string> {
-  try {
-    const response = await octokit.repos.getReadme({
-      owner,
-      repo: name,
-    });
-
-    // Decode base64 content
-    const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
-
-    // Limit to first 3000 characters for analysis
-    return content.slice(0, 3000);
-  } catch (error) {
-    console.error('README fetch error:', error);
-    return 'README not available';
-  }
-}
-
-async function generateDetailedAnalysis(repo: any, readme: string, analysis: any) {
+async function generateDetailedAnalysis(
+  repo: any,
+  docSections: DocSection[],
+  analysis: SOWAnalysis,
+  context: string,
+  integrations: IntegrationCheck[],
+  health: HealthReport | null,
+  license: LicenseAssessment,
+  dependencies: DependencyReport | null,
+  fingerprint: RepoFingerprint | null
+) {
   try {
     const prompt = `Analyze this GitHub repository in detail for the given project requirements.
 
@@ -112,22 +172,37 @@ Repository:
 - Stars: ${repo.stargazers_count}
 - Forks: ${repo.forks_count}
 - Open Issues: ${repo.open_issues_count}
-
-README (excerpt):
-${readme}
+- ${formatLicenseAssessment(license)}
+${health ? `\n${formatHealth(health)}\n` : ''}${fingerprint ? `
+What's inside, from the file tree:
+${formatFingerprint(fingerprint)}
+` : ''}
+README and docs, the sections relevant to the deliverables:
+${docSections.length > 0 ? formatDocSections(docSections) : 'README not available'}
 
 Project Requirements (SOW):
 - Type: ${analysis.projectType}
-- Deliverables: ${analysis.deliverables.join(', ')}
-- Technical Requirements: ${analysis.technicalRequirements.join(', ')}
-- Integrations: ${analysis.integrations.join(', ')}
-
+- Deliverables:
+${analysis.deliverables.map(item => `  ${item.id}: ${item.text}`).join('\n')}
+- Technical Requirements: ${analysis.technicalRequirements.map(item => item.text).join(', ')}
+- Integrations: ${analysis.integrations.map(item => item.text).join(', ')}
+${context ? `\nClient Context:\n${context}\n` : ''}${integrations.length > 0 ? `
+Integrations checked in the repository's manifests and code:
+${formatIntegrationChecks(integrations)}
+` : ''}${dependencies ? `
+Dependencies, from the manifests and package registries:
+${formatDependencyReport(dependencies)}
+` : ''}
 Provide a detailed analysis in the following JSON format:
 {
   "readmeSummary": "2-3 sentence concise summary of what this repo does and its key features",
   "fitAnalysis": {
-    "covers": ["Detailed feature 1 that matches SOW", "Detailed feature 2", "Feature 3"],
-    "gaps": ["Specific missing feature 1", "Missing feature 2", "Missing feature 3"],
+    "covers": [
+      { "text": "D1: Detailed feature that matches the deliverable", "sections": ["S2", "S5"] },
+      { "text": "D2: Detailed feature 2", "sections": ["S3"] },
+      { "text": "D4: Feature 3", "sections": [] }
+    ],
+    "gaps": ["D3: Specific missing feature", "D2: Missing part of a deliverable"],
     "timeSaved": "Estimated 3-4 weeks vs building from scratch",
     "recommendedModifications": [
       "Add Twilio integration for SMS (~2 days)",
@@ -135,7 +210,7 @@ Provide a detailed analysis in the following JSON format:
       "Implement feature X (~3 days)"
     ],
     "risks": [
-      "jQuery frontend is dated - may need modernization",
+      "Single maintainer - slow fixes are likely",
       "Concern or risk 2"
     ]
   }
@@ -143,53 +218,37 @@ Provide a detailed analysis in the following JSON format:
 
 Guidelines:
 - readmeSummary: Very concise, focus on what it actually does
-- covers: 3-5 specific things this repo handles from the SOW
-- gaps: 3-5 specific things missing from the SOW
-- timeSaved: Realistic estimate with comparison to building from scratch
+- covers: 3-5 specific things this repo handles from the SOW, each starting with the ID of the deliverable it serves; list the IDs of the README sections above that back the claim, or none when it rests only on the integration checks or file tree
+- gaps: 3-5 specific things missing from the SOW, each starting with the ID of the deliverable it belongs to
+- timeSaved: Realistic estimate with comparison to building from scratch; weigh the repository's maturity from what's inside (no tests, CI or migrations means more work to make it production-ready)
 - recommendedModifications: 3-5 actionable items with time estimates
-- risks: 2-4 potential concerns (outdated deps, complexity, etc.)
+- risks: 2-4 potential concerns (complexity, architecture, etc.); name weak health signals, e.g. slow responses or a single maintainer. Base dependency concerns on the dependencies above, not on README text; the dependency risks listed there are added to the risks automatically, do not repeat them
+- Only list an integration under covers when it is VERIFIED above; a MENTIONED or ABSENT integration is a gap
+- If the license is INCOMPATIBLE, make that the first risk; if it NEEDS REVIEW, list it as a risk
+- Apply the client context when given, e.g. flag a conflict with a hosting preference or a system the client already uses as a gap or risk
 
 Be specific and actionable. Return ONLY valid JSON, no additional text.`;
 
-    const message = await anthropic.messages.create({
-      model: 'claude-3-5-haiku-20241022',
-      max_tokens: 2048,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const responseText = message.content[0].type === 'text'
-      ? message.content[0].text
-      : '';
-
-    const result = JSON.parse(responseText);
+    const result = await completeJSON('detail', prompt, RepoDetailReplySchema);
 
     return {
-      readmeSummary: result.readmeSummary || 'No summary available',
-      fitAnalysis: {
-        covers: result.fitAnalysis?.covers || [],
-        gaps: result.fitAnalysis?.gaps || [],
-        timeSaved: result.fitAnalysis?.timeSaved || 'Unable to estimate',
-        recommendedModifications: result.fitAnalysis?.recommendedModifications || [],
-        risks: result.fitAnalysis?.risks || [],
-      },
+      ...result,
+      degraded: false,
     };
 
   } catch (error) {
     console.error('AI analysis error:', error);
+    // Nothing is made up in place of the analysis; the detail view says it is unavailable
     return {
-      readmeSummary: 'Analysis unavailable',
+      readmeSummary: '',
       fitAnalysis: {
-        covers: ['Repository features detected'],
-        gaps: ['Detailed analysis unavailable'],
-        timeSaved: 'Unable to estimate',
-        recommendedModifications: ['Further analysis needed'],
-        risks: ['Analysis incomplete'],
+        covers: [],
+        gaps: [],
+        timeSaved: '',
+        recommendedModifications: [],
+        risks: [],
       },
+      degraded: true,
     };
   }
 }
@@ -1,18 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Octokit } from '@octokit/rest';
-import Anthropic from '@anthropic-ai/sdk';
-
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-});
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { DistributionModel, ExcludedRepo, PendingCandidate, Redaction, RepoResult, RepoSummary, SearchConstraints, SearchCursor, SearchQuery, SOWAnalysis } from '@/lib/types';
+import { redactContext, resolveAnswers } from '@/lib/context';
+import { parseRedactions, redactionTermsFor } from '@/lib/redaction';
+import { planSearchQueries } from '@/lib/queries';
+import { analyzeCoverage, isRelevant } from '@/lib/assess';
+import { assessResultHealth } from '@/lib/health';
+import { preferredLanguages, rankRepos } from '@/lib/ranking';
+import { eventStream } from '@/lib/sse';
+import { fetchReadmeExcerpts, hasMorePages, searchGitHub, toRepoSummary } from '@/lib/github';
+import { preRankCandidates } from '@/lib/prerank';
+import { checkConstraints, configuredBlockList, constrainQuery, parseConstraints } from '@/lib/constraints';
+import { resolveDistributionModel } from '@/lib/licenses';
+
+// Repositories whose coverage is estimated per search
+const MAX_CANDIDATES = 15;
+
+// Candidates whose READMEs are fetched for the second pre-ranking pass;
+// the others are ranked on their name, description and topics only
+const SHORTLIST_SIZE = 3 * MAX_CANDIDATES;
+
+// README characters used by the pre-ranking
+const PRERANK_README_CHARS = 2000;
+
+// Candidates not analyzed yet that are kept for the next round
+const MAX_PENDING = 100;
 
 export async function POST(request: NextRequest) {
   try {
-    const { analysis, questionAnswers, additionalContext } = await request.json();
+    const {
+      analysis,
+      questionAnswers,
+      additionalContext = '',
+      constraints: requested,
+      distributionModel,
+      redactionTerms,
+      redactions,
+      cursor,
+    } = await request.json() as {
+      analysis: SOWAnalysis;
+      questionAnswers?: Record<string, string>;
+      additionalContext?: string;
+      constraints?: SearchConstraints;
+      distributionModel?: DistributionModel | null;
+      redactionTerms?: string[];
+      redactions?: Redaction[]; // Made so far, so placeholders stay the same
+      cursor?: SearchCursor | null; // Present when searching deeper
+    };
 
     if (!analysis) {
       return NextResponse.json(
@@ -21,55 +54,180 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build search queries based on the analysis
-    const searchQueries = buildSearchQueries(analysis, questionAnswers, additionalContext);
-
-    // Search GitHub for repos
-    const repos = await searchGitHub(searchQueries);
-
-    if (repos.length === 0) {
-      return NextResponse.json({
-        success: true,
-        results: [],
-        message: 'No repositories found matching your requirements',
-      });
-    }
+    // Results are streamed: queries, GitHub results, then each repo's coverage
+    return eventStream(async (send) => {
+      try {
+        // Answers are only meaningful together with their question text. Like
+        // the SOW, they are redacted before any prompt sees them.
+        const { answers, additionalContext: context, redactions: added } = redactContext(
+          resolveAnswers(analysis.questions || [], questionAnswers),
+          additionalContext,
+          { customTerms: redactionTermsFor(redactionTerms), known: parseRedactions(redactions) }
+        );
+        if (added.length > 0) send('redactions', { redactions: added });
+        const round = cursor ? cursor.round + 1 : 0;
+        const page = cursor ? cursor.page + 1 : 1;
+
+        // The deployment's block list applies to every project
+        const parsed = parseConstraints(requested);
+        const constraints = { ...parsed, blockList: [...new Set([...parsed.blockList, ...configuredBlockList()])] };
+
+        // A deeper round reuses the first round's queries and fetches their
+        // next page; the first round plans them
+        let searchQueries: SearchQuery[];
+        if (cursor) {
+          searchQueries = cursor.queries.filter(query => hasMorePages(query, cursor.page));
+        } else {
+          const plan = await planSearchQueries(analysis, answers, context);
+          searchQueries = plan.queries.map(query => ({ ...query, query: constrainQuery(query.query, constraints) }));
+          send('queries', { queries: searchQueries, planned: plan.planned });
+        }
 
-    // Analyze each repo for SOW coverage
-    const analyzedRepos = await Promise.all(
-      repos.slice(0, 10).map(async (repo) => {
-        const coverage = await analyzeCoverage(repo, analysis);
-        return {
-          id: repo.id,
-          owner: repo.owner.login,
-          name: repo.name,
-          fullName: repo.full_name,
-          description: repo.description,
-          stars: repo.stargazers_count,
-          language: repo.language,
-          lastActivity: repo.updated_at,
-          url: repo.html_url,
-          ...coverage,
+        // Search GitHub for repos not seen in earlier rounds
+        const seen = new Set(cursor?.seen ?? []);
+        const { repos, executed, rateLimit } = searchQueries.length > 0
+          ? await searchGitHub(searchQueries, page)
+          : { repos: [], executed: [], rateLimit: null };
+        const fetched = repos.filter(repo => !seen.has(repo.id));
+        fetched.forEach(repo => seen.add(repo.id));
+
+        // Remove repos that break a constraint, recording every rule they
+        // break. Leftovers from earlier rounds are checked again, in case the
+        // constraints changed.
+        const excluded: ExcludedRepo[] = [];
+        const eligible = (summary: RepoSummary) => {
+          const violations = checkConstraints(summary, constraints);
+          if (violations.length > 0) excluded.push({ repo: summary, violations });
+          return violations.length === 0;
+        };
+        const newRepos = fetched.filter(repo => eligible(toRepoSummary(repo, round)));
+        const leftovers = (cursor?.pending ?? []).filter(candidate => eligible(candidate.repo));
+
+        // Pre-rank the new repos, together with those left over from earlier
+        // rounds, locally against the SOW; only the best matches are sent to
+        // the LLM. A first pass on the search metadata picks a shortlist, so
+        // READMEs are only fetched for repos with a chance of being chosen.
+        const pool: PendingCandidate[] = [
+          ...leftovers,
+          ...newRepos.map(repo => ({
+            repo: toRepoSummary(repo, round),
+            topics: repo.topics ?? [],
+            readme: null,
+            foundForDeliverables: repo.foundForDeliverables,
+          })),
+        ];
+        const candidateText = (candidate: PendingCandidate, withReadme: boolean) => ({
+          ...candidate,
+          name: candidate.repo.name,
+          description: candidate.repo.description,
+          readme: withReadme ? candidate.readme ?? '' : '',
+        });
+
+        const shortlist = preRankCandidates(pool.map(candidate => candidateText(candidate, false)), analysis, SHORTLIST_SIZE)
+          .map(({ index }) => index);
+        const unread = shortlist.filter(index => pool[index].readme === null);
+        const readmes = await fetchReadmeExcerpts(unread.map(index => pool[index].repo), PRERANK_README_CHARS);
+        unread.forEach((index, idx) => { pool[index] = { ...pool[index], readme: readmes[idx] }; });
+
+        const ranked = preRankCandidates(shortlist.map(index => candidateText(pool[index], true)), analysis, MAX_CANDIDATES)
+          .map(({ index }) => shortlist[index]);
+        const chosen = new Set(ranked);
+        const candidates = ranked.map(index => ({ ...pool[index].repo, round }));
+
+        // Every query with its latest run. Queries that were not run again had
+        // no further pages, so they keep their earlier totals.
+        const queries = cursor
+          ? cursor.queries.map(query => {
+            const run = executed.find(({ query: text }) => text === query.query);
+            // A failed run keeps the earlier total, so a later round can try the query again
+            return run?.error ? { ...query, error: run.error } : run ?? query;
+          })
+          : executed;
+        send('fetched', {
+          count: fetched.length,
+          excluded: excluded.length,
+          analyzing: candidates.length,
+          queries,
+          warning: rateLimit,
+        });
+
+        // Where the next round picks up
+        const pending = pool.filter((candidate, index) => !chosen.has(index)).slice(0, MAX_PENDING);
+        const nextCursor: SearchCursor = {
+          queries,
+          page,
+          round,
+          seen: [...seen],
+          pending,
+          // After a rate limit, searching deeper later can still find more
+          exhausted: !rateLimit && pending.length === 0 && !queries.some(query => hasMorePages(query, page)),
         };
-      })
-    );
-
-    // Filter out repos that don't cover anything from the SOW
-    // Also exclude fallback/generic responses
-    const relevantRepos = analyzedRepos.filter(repo => {
-      if (!repo.covers || repo.covers.length === 0) return false;
-      // Exclude if only cover is the generic fallback message
-      if (repo.covers.length === 1 && repo.covers[0] === 'Similar functionality detected') return false;
-      return true;
-    });
 
-    // Sort by coverage percentage
-    relevantRepos.sort((a, b) => b.coveragePercentage - a.coveragePercentage);
+        if (candidates.length === 0) {
+          send('done', {
+            success: true,
+            round,
+            results: [],
+            unanalyzed: [],
+            excluded,
+            cursor: nextCursor,
+            message: rateLimit && fetched.length === 0
+              ? rateLimit
+              : excluded.length > 0
+                ? `${excluded.length} repositories found, but none meets the constraints`
+                : cursor ? 'No further repositories found' : 'No repositories found matching your requirements',
+          });
+          return;
+        }
 
-    return NextResponse.json({
-      success: true,
-      results: relevantRepos.slice(0, 10),
-      message: relevantRepos.length === 0 ? 'No repositories found matching your requirements. Try refining your SOW or additional context.' : undefined,
+        // Analyze each repo for SOW coverage, reporting each as it finishes
+        const analyzedRepos = await Promise.all(
+          candidates.map(async (base) => {
+            const coverage = await analyzeCoverage(base, analysis, answers, context);
+            // Health is only worth its GitHub requests for repos that are shown
+            const result: RepoResult = {
+              ...base,
+              ...coverage,
+              health: isRelevant(coverage) ? await assessResultHealth(base) : null,
+            };
+
+            send('repo', { repo: result, relevant: isRelevant(result) });
+            return result;
+          })
+        );
+
+        // Filter out repos that don't cover anything from the SOW. Repos whose
+        // analysis failed are returned separately, outside the ranking.
+        const relevantRepos = analyzedRepos.filter(isRelevant);
+        const unanalyzedRepos = analyzedRepos.filter(repo => repo.status === 'unanalyzed');
+
+        // Rank by fit, health, popularity, license and tech preference
+        const rankedRepos = rankRepos(relevantRepos, {
+          languages: preferredLanguages(answers, context),
+          distribution: resolveDistributionModel(distributionModel, answers, context),
+        });
+
+        send('done', {
+          success: true,
+          round,
+          results: rankedRepos,
+          unanalyzed: unanalyzedRepos,
+          excluded,
+          cursor: nextCursor,
+          message: relevantRepos.length > 0
+            ? undefined
+            : cursor
+              ? 'No further matching repositories in this round'
+              : 'No repositories found matching your requirements. Try refining your SOW or additional context.',
+        });
+      } catch (error) {
+        console.error('Search error:', error);
+        send('error', {
+          error: error instanceof Error
+            ? error.message
+            : 'Failed to search repositories'
+        });
+      }
     });
 
   } catch (error) {
@@ -84,121 +242,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-function buildSearchQueries(analysis: any, questionAnswers: any, additionalContext: string): string[] {
-  const queries: string[] = [];
-
-  // Extract key terms from project type and deliverables
-  const projectTerms = analysis.projectType.toLowerCase().split(' ').filter((word: string) => word.length > 3);
-  const deliverableTerms = analysis.deliverables.join(' ').toLowerCase().split(' ').filter((word: string) => word.length > 3);
-
-  // Build main query from project type
-  const mainTerms = [...new Set([...projectTerms.slice(0, 3), ...deliverableTerms.slice(0, 2)])];
-  queries.push(mainTerms.join(' '));
-
-  // Add tech stack if mentioned
-  if (analysis.technicalRequirements.length > 0) {
-    const techQuery = `${mainTerms[0]} ${analysis.technicalRequirements[0]}`;
-    queries.push(techQuery);
-  }
-
-  // Add integration-based query
-  if (analysis.integrations.length > 0) {
-    const integrationQuery = `${mainTerms[0]} ${analysis.integrations[0]}`;
-    queries.push(integrationQuery);
-  }
-
-  return queries.slice(0, 3);
-}
-
-async function searchGitHub(queries: string[]) {
-  const allRepos: any[] = [];
-  const seenRepoIds = new Set();
-
-  for (const query of queries) {
-    try {
-      const response = await octokit.search.repos({
-        q: `${query} stars:>0`,
-        sort: 'stars',
-        order: 'desc',
-        per_page: 20,
-      });
-
-      // Add unique repos
-      for (const repo of response.data.items) {
-        if (!seenRepoIds.has(repo.id)) {
-          seenRepoIds.add(repo.id);
-          allRepos.push(repo);
-        }
-      }
-    } catch (error) {
-      console.error(`Search error for query "${query}":`, error);
-    }
-  }
-
-  return allRepos;
-}
-
-async function analyzeCoverage(repo: any, analysis: any) {
-  try {
-    const prompt = `Analyze how well this GitHub repository matches the following project requirements.
-
-Repository:
-- Name: ${repo.full_name}
-- Description: ${repo.description || 'No description'}
-- Language: ${repo.language || 'Unknown'}
-- Stars: ${repo.stargazers_count}
-
-Project Requirements:
-- Type: ${analysis.projectType}
-- Deliverables: ${analysis.deliverables.join(', ')}
-- Technical Requirements: ${analysis.technicalRequirements.join(', ')}
-- Integrations: ${analysis.integrations.join(', ')}
-
-Provide your analysis in the following JSON format:
-{
-  "coveragePercentage": 65,
-  "covers": ["Feature 1 from deliverables", "Feature 2", "Feature 3"],
-  "gaps": ["Missing feature 1", "Missing feature 2", "Missing feature 3"]
-}
-
-Guidelines:
-- coveragePercentage: Estimate 0-100 how much of the SOW deliverables this repo covers
-- covers: List 2-5 specific things this repo handles from the requirements
-- gaps: List 2-5 specific things you'd still need to build
-
-Be concise and specific. Return ONLY valid JSON, no additional text.`;
-
-    const message = await anthropic.messages.create({
-      model: 'claude-3-5-haiku-20241022',
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const responseText = message.content[0].type === 'text'
-      ? message.content[0].text
-      : '';
-
-    const coverage = JSON.parse(responseText);
-
-    return {
-      coveragePercentage: coverage.coveragePercentage || 0,
-      covers: coverage.covers || [],
-      gaps: coverage.gaps || [],
-    };
-
-  } catch (error) {
-    console.error('Coverage analysis error:', error);
-    // Return fallback values
-    return {
-      coveragePercentage: 30,
-      covers: ['Similar functionality detected'],
-      gaps: ['Detailed analysis unavailable'],
-    };
-  }
-}
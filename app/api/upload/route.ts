@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseFile, parseDirectText } from '@/lib/parser';
+import { parseFile, parseDirectText, getFileExtension, SUPPORTED_EXTENSIONS } from '@/lib/parser';
+import { detectSections } from '@/lib/sections';
+import { isDocumentRole } from '@/lib/documents';
+import { SOWDocument } from '@/lib/types';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_FILES = 10;
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,13 +25,19 @@ export async function POST(request: NextRequest) {
 
       try {
         const content = parseDirectText(text);
-        const wordCount = content.split(/\s+/).length;
+        const document: SOWDocument = {
+          id: 'doc1',
+          filename: 'Pasted Text',
+          role: 'sow',
+          content,
+          outline: detectSections(content),
+          pageStarts: null,
+        };
 
         return NextResponse.json({
           success: true,
-          content,
-          filename: 'Pasted Text',
-          wordCount,
+          documents: [document],
+          wordCount: countWords(content),
         });
       } catch (error) {
         return NextResponse.json(
@@ -35,61 +47,78 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Handle file upload (FormData)
+    // Handle file upload (FormData) - one or more files, each with a role
     if (contentType.includes('multipart/form-data')) {
       const formData = await request.formData();
-      const file = formData.get('file') as File | null;
+      const files = [...formData.getAll('files'), ...formData.getAll('file')]
+        .filter((entry): entry is File => entry instanceof File);
+      const roles = formData.getAll('roles');
 
-      if (!file) {
+      if (files.length === 0) {
         return NextResponse.json(
           { error: 'No file provided' },
           { status: 400 }
         );
       }
 
-      // Validate file type
-      const allowedExtensions = ['pdf', 'txt', 'md'];
-      const fileExtension = file.name.split('.').pop()?.toLowerCase();
-
-      if (!fileExtension || !allowedExtensions.includes(fileExtension)) {
+      if (files.length > MAX_FILES) {
         return NextResponse.json(
-          { error: 'Please upload PDF, TXT, or MD files only' },
+          { error: `Please upload at most ${MAX_FILES} documents` },
           { status: 400 }
         );
       }
 
-      // Validate file size (10MB max)
-      const maxSize = 10 * 1024 * 1024;
-      if (file.size > maxSize) {
-        return NextResponse.json(
-          { error: 'File size must be under 10MB' },
-          { status: 400 }
-        );
+      // Validate every file before parsing any of them
+      for (const file of files) {
+        if (!SUPPORTED_EXTENSIONS.includes(getFileExtension(file.name))) {
+          return NextResponse.json(
+            { error: `${file.name}: please upload PDF, DOCX, ODT, RTF, TXT, or MD files only` },
+            { status: 400 }
+          );
+        }
+
+        if (file.size > MAX_FILE_SIZE) {
+          return NextResponse.json(
+            { error: `${file.name}: file size must be under 10MB` },
+            { status: 400 }
+          );
+        }
       }
 
-      // Parse file
-      try {
-        const content = await parseFile(file);
-        const wordCount = content.split(/\s+/).length;
+      // Parse files
+      const documents: SOWDocument[] = [];
+      for (const [idx, file] of files.entries()) {
+        try {
+          const { content, pageStarts } = await parseFile(file);
+          const role = roles[idx];
 
-        return NextResponse.json({
-          success: true,
-          content,
-          filename: file.name,
-          fileSize: file.size,
-          wordCount,
-        });
-      } catch (error) {
-        console.error('File parsing error:', error);
-        return NextResponse.json(
-          {
-            error: error instanceof Error
-              ? error.message
-              : 'Failed to parse file. Please try a different file or paste the text directly.'
-          },
-          { status: 400 }
-        );
+          documents.push({
+            id: `doc${idx + 1}`,
+            filename: file.name,
+            // The first document is the master SOW unless told otherwise
+            role: isDocumentRole(role) ? role : idx === 0 ? 'sow' : 'addendum',
+            content,
+            outline: detectSections(content),
+            pageStarts,
+          });
+        } catch (error) {
+          console.error('File parsing error:', error);
+          const message = error instanceof Error
+            ? error.message
+            : 'Failed to parse file. Please try a different file or paste the text directly.';
+          return NextResponse.json(
+            { error: files.length > 1 ? `${file.name}: ${message}` : message },
+            { status: 400 }
+          );
+        }
       }
+
+      return NextResponse.json({
+        success: true,
+        documents,
+        fileSize: files.reduce((total, file) => total + file.size, 0),
+        wordCount: documents.reduce((total, doc) => total + countWords(doc.content), 0),
+      });
     }
 
     // Unsupported content type
@@ -106,3 +135,7 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+function countWords(content: string): number {
+  return content.split(/\s+/).length;
+}
@@ -2,40 +2,61 @@
 
 import { useEffect, useState } from 'react';
 import { useStore } from '@/lib/store';
+import { SECTION_LABELS } from '@/lib/sections';
+import { DOCUMENT_ROLE_LABELS } from '@/lib/documents';
+import { REDACTION_LABELS, rehydrate } from '@/lib/redaction';
+import { readEventStream } from '@/lib/sse';
+import { streamSearch } from '@/lib/search';
+import { PRIORITY_LABELS } from '@/lib/coverage';
+import { AnalysisProgress, Deliverable, Priority, Redaction, RedactionKind, Requirement, SOWAnalysis } from '@/lib/types';
+import ConstraintsPanel from '@/components/ConstraintsPanel';
+import DistributionPanel from '@/components/DistributionPanel';
 
 export default function AnalysisStep() {
   const {
-    sowContent,
-    filename,
+    documents,
+    redactionTerms,
+    redactions,
+    setRedactions,
+    addRedactions,
     analysis,
     setAnalysis,
+    setDeliverablePriority,
     questionAnswers,
     setQuestionAnswer,
     additionalContext,
     setAdditionalContext,
+    constraints,
+    distributionModel,
     isAnalyzing,
     setIsAnalyzing,
     isSearching,
     setIsSearching,
-    setSearchResults,
+    beginSearch,
+    setSearchProgress,
+    addSearchResult,
+    addUnanalyzedResult,
+    completeSearch,
     setError,
     reset,
   } = useStore();
 
   const [localError, setLocalError] = useState<string | null>(null);
   const [hasAttemptedAnalysis, setHasAttemptedAnalysis] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
 
   // Auto-trigger analysis when component mounts if we don't have analysis yet
   useEffect(() => {
-    if (sowContent && !analysis && !isAnalyzing && !hasAttemptedAnalysis) {
+    if (documents.length > 0 && !analysis && !isAnalyzing && !hasAttemptedAnalysis) {
       setHasAttemptedAnalysis(true);
       analyzeSOW();
     }
-  }, [sowContent, analysis, isAnalyzing, hasAttemptedAnalysis]);
+  }, [documents, analysis, isAnalyzing, hasAttemptedAnalysis]);
 
   const analyzeSOW = async () => {
     setIsAnalyzing(true);
     setLocalError(null);
+    setProgress(null);
 
     try {
       const response = await fetch('/api/analyze', {
@@ -43,7 +64,7 @@ export default function AnalysisStep() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ sowContent }),
+        body: JSON.stringify({ documents, redactionTerms }),
       });
 
       if (!response.ok) {
@@ -51,8 +72,21 @@ export default function AnalysisStep() {
         throw new Error(errorData.error || 'Failed to analyze SOW');
       }
 
-      const data = await response.json();
-      setAnalysis(data.analysis);
+      // Progress is streamed while long SOWs are analyzed in chunks
+      for await (const { event, data } of readEventStream(response)) {
+        if (event === 'progress') {
+          setProgress(data as AnalysisProgress);
+        } else if (event === 'error') {
+          throw new Error((data as { error?: string }).error || 'Failed to analyze SOW');
+        } else if (event === 'result') {
+          const result = data as { analysis: SOWAnalysis; redactions?: Redaction[] };
+          setRedactions(result.redactions || []);
+          setAnalysis(result.analysis);
+          return;
+        }
+      }
+
+      throw new Error('Analysis ended without a result');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to analyze SOW';
       setLocalError(errorMessage);
@@ -62,6 +96,78 @@ export default function AnalysisStep() {
     }
   };
 
+  const isMultiDocument = documents.length > 1;
+
+  // The analysis refers to redacted values by placeholder; show the originals
+  const display = (text: string) => rehydrate(text, redactions);
+
+  const redactionCounts = redactions.reduce<Partial<Record<RedactionKind, number>>>(
+    (counts, redaction) => ({ ...counts, [redaction.kind]: (counts[redaction.kind] || 0) + 1 }),
+    {}
+  );
+
+  // Source document, page and quote of a requirement
+  const renderCitation = (requirement: Requirement) => {
+    const source = isMultiDocument
+      ? documents.find((doc) => doc.id === requirement.sourceDocument)
+      : undefined;
+
+    const citation = requirement.citation;
+
+    return (
+      <>
+        {source && (
+          <span
+            title={source.filename}
+            className="ml-2 text-xs px-2 py-0.5 bg-gray-100 text-gray-600 rounded"
+          >
+            {DOCUMENT_ROLE_LABELS[source.role]}
+          </span>
+        )}
+        {citation?.page && (
+          <span className="ml-2 text-xs px-2 py-0.5 bg-blue-50 text-blue-700 rounded">
+            p. {citation.page}
+          </span>
+        )}
+        {citation && (
+          <p className="ml-5 text-xs text-gray-500 italic">
+            &ldquo;{display(citation.quote)}&rdquo;
+            {!citation.verified && (
+              <span className="not-italic ml-2 text-orange-600">(quote not found in document)</span>
+            )}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  const renderRequirement = (requirement: Requirement, idx: number) => (
+    <li key={idx} className="text-gray-900">
+      {display(requirement.text)}
+      {renderCitation(requirement)}
+    </li>
+  );
+
+  // Deliverables carry the ID coverage refers to, and a priority that
+  // weights them in the coverage percentage
+  const renderDeliverable = (deliverable: Deliverable) => (
+    <li key={deliverable.id} className="text-gray-900">
+      <span className="mr-1 text-xs font-medium text-gray-500">{deliverable.id}</span>
+      {display(deliverable.text)}
+      <select
+        value={deliverable.priority}
+        onChange={(e) => setDeliverablePriority(deliverable.id, e.target.value as Priority)}
+        title="Priority - weights this deliverable in coverage scores"
+        className="ml-2 text-xs px-1 py-0.5 border border-gray-300 rounded text-gray-700"
+      >
+        {(Object.keys(PRIORITY_LABELS) as Priority[]).map((priority) => (
+          <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+        ))}
+      </select>
+      {renderCitation(deliverable)}
+    </li>
+  );
+
   const handleQuestionChange = (questionId: string, answer: string) => {
     setQuestionAnswer(questionId, answer);
   };
@@ -78,29 +184,26 @@ export default function AnalysisStep() {
   };
 
   const handleSearchRepos = async () => {
+    if (!analysis) return;
     setIsSearching(true);
     setLocalError(null);
 
     try {
-      const response = await fetch('/api/search', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          analysis,
-          questionAnswers,
-          additionalContext,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to search repositories');
-      }
-
-      const data = await response.json();
-      setSearchResults(data.results);
+      // Switch to the results view once the search starts and show repos as
+      // their coverage arrives
+      const round = await streamSearch(
+        { analysis, questionAnswers, additionalContext, constraints, distributionModel, redactionTerms, redactions },
+        {
+          onStart: beginSearch,
+          onRedactions: addRedactions,
+          onProgress: setSearchProgress,
+          onRepo: (repo, relevant) => {
+            if (relevant) addSearchResult(repo);
+            else if (repo.status === 'unanalyzed') addUnanalyzedResult(repo);
+          },
+        }
+      );
+      completeSearch(round);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to search repositories';
       setLocalError(errorMessage);
@@ -138,8 +241,20 @@ export default function AnalysisStep() {
               Analyzing Statement of Work...
             </h2>
             <p className="text-gray-600">
-              Using AI to extract requirements and generate questions
+              {progress && progress.total > 1
+                ? progress.stage === 'merging'
+                  ? `Merging ${progress.total} parts and generating questions`
+                  : `Long SOW split into ${progress.total} parts - ${progress.completed} of ${progress.total} analyzed`
+                : 'Using AI to extract requirements and generate questions'}
             </p>
+            {progress && progress.total > 1 && (
+              <div className="w-full max-w-md h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -203,7 +318,12 @@ export default function AnalysisStep() {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">SOW Analysis</h1>
             <p className="text-gray-600 mt-1">
-              {filename && `Source: ${filename}`}
+              {documents.length > 0 &&
+                `Source: ${documents
+                  .map((doc) =>
+                    isMultiDocument ? `${doc.filename} (${DOCUMENT_ROLE_LABELS[doc.role]})` : doc.filename
+                  )
+                  .join(', ')}`}
             </p>
           </div>
           <button
@@ -215,6 +335,53 @@ export default function AnalysisStep() {
         </div>
       </div>
 
+      {analysis.degraded && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+          <p className="text-sm text-orange-800">
+            Part of this SOW could not be analyzed, so some requirements may be missing.
+          </p>
+          <button
+            onClick={analyzeSOW}
+            className="px-4 py-2 text-sm bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+          >
+            Retry Analysis
+          </button>
+        </div>
+      )}
+
+      {/* Redaction Summary */}
+      {redactions.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">
+            Redacted Before Analysis
+          </h2>
+          <p className="text-sm text-gray-600 mb-3">
+            These values were replaced with placeholders before the SOW was sent for AI analysis
+          </p>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {(Object.keys(redactionCounts) as RedactionKind[]).map((kind) => (
+              <span key={kind} className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded">
+                {REDACTION_LABELS[kind]}: {redactionCounts[kind]}
+              </span>
+            ))}
+          </div>
+          <details className="text-sm">
+            <summary className="cursor-pointer text-blue-600 hover:text-blue-800">
+              Show redacted values
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {redactions.map((redaction) => (
+                <li key={redaction.placeholder} className="text-gray-700">
+                  <code className="text-xs px-1 bg-gray-100 rounded">{redaction.placeholder}</code>
+                  {' '}&rarr; {redaction.value}
+                  <span className="text-gray-500"> ({redaction.occurrences}&times;)</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        </div>
+      )}
+
       {/* Analysis Summary */}
       <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
         <div>
@@ -223,11 +390,42 @@ export default function AnalysisStep() {
           </h2>
 
           <div className="space-y-4">
+            {documents.some((doc) => doc.outline.some((section) => section.heading)) && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  Document Outline
+                </h3>
+                <div className="space-y-2">
+                  {documents.map((doc) => (
+                    <div key={doc.id} className="flex flex-wrap items-center gap-2">
+                      {isMultiDocument && (
+                        <span className="text-xs font-medium text-gray-600">{doc.filename}:</span>
+                      )}
+                      {doc.outline.map((section, idx) => (
+                        <span
+                          key={idx}
+                          title={section.heading || undefined}
+                          className={`text-xs px-2 py-1 rounded ${
+                            section.type === 'outOfScope'
+                              ? 'bg-red-50 text-red-700'
+                              : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {SECTION_LABELS[section.type]}
+                          {section.heading && `: ${section.heading}`}
+                        </span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div>
               <h3 className="text-sm font-medium text-gray-700 mb-2">
                 Project Type
               </h3>
-              <p className="text-gray-900">{analysis.projectType}</p>
+              <p className="text-gray-900">{display(analysis.projectType)}</p>
             </div>
 
             <div>
@@ -235,11 +433,7 @@ export default function AnalysisStep() {
                 Core Deliverables
               </h3>
               <ul className="list-disc list-inside space-y-1">
-                {analysis.deliverables.map((deliverable, idx) => (
-                  <li key={idx} className="text-gray-900">
-                    {deliverable}
-                  </li>
-                ))}
+                {analysis.deliverables.map(renderDeliverable)}
               </ul>
             </div>
 
@@ -249,11 +443,7 @@ export default function AnalysisStep() {
                   Technical Requirements
                 </h3>
                 <ul className="list-disc list-inside space-y-1">
-                  {analysis.technicalRequirements.map((req, idx) => (
-                    <li key={idx} className="text-gray-900">
-                      {req}
-                    </li>
-                  ))}
+                  {analysis.technicalRequirements.map(renderRequirement)}
                 </ul>
               </div>
             )}
@@ -264,11 +454,7 @@ export default function AnalysisStep() {
                   Integrations Mentioned
                 </h3>
                 <ul className="list-disc list-inside space-y-1">
-                  {analysis.integrations.map((integration, idx) => (
-                    <li key={idx} className="text-gray-900">
-                      {integration}
-                    </li>
-                  ))}
+                  {analysis.integrations.map(renderRequirement)}
                 </ul>
               </div>
             )}
@@ -285,7 +471,7 @@ export default function AnalysisStep() {
         {analysis.questions.map((question) => (
           <div key={question.id} className="space-y-3">
             <h3 className="text-sm font-medium text-gray-900">
-              {question.question}
+              {display(question.question)}
             </h3>
             <div className="space-y-2">
               {question.options.map((option, idx) => (
@@ -303,7 +489,7 @@ export default function AnalysisStep() {
                     }
                     className="h-4 w-4 text-blue-600"
                   />
-                  <span className="text-gray-900">{option}</span>
+                  <span className="text-gray-900">{display(option)}</span>
                 </label>
               ))}
             </div>
@@ -311,6 +497,12 @@ export default function AnalysisStep() {
         ))}
       </div>
 
+      {/* Constraints */}
+      <ConstraintsPanel />
+
+      {/* Distribution model, for the license check */}
+      <DistributionPanel />
+
       {/* Additional Context */}
       <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
         <div>
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { useStore } from '@/lib/store';
+import { DEFAULT_CONSTRAINTS, describeConstraints } from '@/lib/constraints';
+import { SearchConstraints } from '@/lib/types';
+
+type ListField = 'requiredLanguages' | 'forbiddenLanguages' | 'allowedLicenses' | 'allowList' | 'blockList';
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+  { field: 'requiredLanguages', label: 'Required languages (any of)', placeholder: 'e.g. C#, F#' },
+  { field: 'forbiddenLanguages', label: 'Forbidden languages', placeholder: 'e.g. PHP' },
+  { field: 'allowedLicenses', label: 'Allowed licenses (SPDX)', placeholder: 'e.g. MIT, Apache-2.0, BSD-3-Clause' },
+  { field: 'allowList', label: 'Only these owners or repos', placeholder: 'e.g. dotnet, abpframework/abp' },
+  { field: 'blockList', label: 'Never these owners or repos', placeholder: 'e.g. some-vendor, acme/legacy-crm' },
+];
+
+const toText = (constraints: SearchConstraints) =>
+  Object.fromEntries(LIST_FIELDS.map(({ field }) => [field, constraints[field].join(', ')])) as Record<ListField, string>;
+
+export default function ConstraintsPanel() {
+  const { constraints, setConstraints } = useStore();
+
+  // Lists are edited as comma-separated text and parsed when a field loses focus
+  const [lists, setLists] = useState(() => toText(constraints));
+
+  const update = (changes: Partial<SearchConstraints>) => setConstraints({ ...constraints, ...changes });
+
+  const commitList = (field: ListField) =>
+    update({ [field]: lists[field].split(',').map((entry) => entry.trim()).filter(Boolean) });
+
+  const resetAll = () => {
+    setConstraints(DEFAULT_CONSTRAINTS);
+    setLists(toText(DEFAULT_CONSTRAINTS));
+  };
+
+  const active = describeConstraints(constraints);
+
+  return (
+    <details className="bg-white rounded-lg shadow-lg p-6" open={active.length > 0}>
+      <summary className="cursor-pointer">
+        <span className="text-lg font-semibold text-gray-900">Constraints (Optional)</span>
+        <span className="block text-sm text-gray-600 mt-1">
+          {active.length > 0
+            ? active.join(' · ')
+            : 'Non-negotiables such as ".NET only" or "no GPL". Repositories that break one are excluded.'}
+        </span>
+      </summary>
+
+      <div className="mt-4 grid md:grid-cols-2 gap-4">
+        {LIST_FIELDS.map(({ field, label, placeholder }) => (
+          <label key={field} className="block text-sm text-gray-700">
+            {label}
+            <input
+              type="text"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={placeholder}
+              value={lists[field]}
+              onChange={(e) => setLists({ ...lists, [field]: e.target.value })}
+              onBlur={() => commitList(field)}
+            />
+          </label>
+        ))}
+
+        <label className="block text-sm text-gray-700">
+          Minimum stars
+          <input
+            type="number"
+            min={0}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            value={constraints.minStars}
+            onChange={(e) => update({ minStars: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+
+        <label className="block text-sm text-gray-700">
+          Last push within (months)
+          <input
+            type="number"
+            min={1}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Any"
+            value={constraints.maxMonthsSincePush ?? ''}
+            onChange={(e) => update({ maxMonthsSincePush: Number(e.target.value) > 0 ? Number(e.target.value) : null })}
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-6 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={constraints.excludeArchived}
+            onChange={(e) => update({ excludeArchived: e.target.checked })}
+          />
+          Exclude archived
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={constraints.excludeForks}
+            onChange={(e) => update({ excludeForks: e.target.checked })}
+          />
+          Exclude forks
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={constraints.excludeTemplates}
+            onChange={(e) => update({ excludeTemplates: e.target.checked })}
+          />
+          Exclude templates
+        </label>
+        <button onClick={resetAll} className="ml-auto text-xs text-blue-600 hover:text-blue-700">
+          Reset to defaults
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useStore } from '@/lib/store';
+import { resolveAnswers } from '@/lib/context';
+import { DISTRIBUTION_MODEL_LABELS, inferDistributionModel } from '@/lib/licenses';
+import { DistributionModel } from '@/lib/types';
+
+export default function DistributionPanel() {
+  const { analysis, questionAnswers, additionalContext, distributionModel, setDistributionModel } = useStore();
+
+  const inferred = inferDistributionModel(resolveAnswers(analysis?.questions ?? [], questionAnswers), additionalContext);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2">Distribution</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        How the deliverable reaches its users decides which licenses it can reuse, e.g. AGPL code cannot go into a
+        closed-source product. Repositories with an incompatible license are flagged.
+      </p>
+      <select
+        value={distributionModel ?? ''}
+        onChange={(e) => setDistributionModel((e.target.value || null) as DistributionModel | null)}
+        className="w-full md:w-auto px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value="">
+          From the answers and context
+          {inferred ? ` (${DISTRIBUTION_MODEL_LABELS[inferred]})` : ' (not stated)'}
+        </option>
+        {(Object.keys(DISTRIBUTION_MODEL_LABELS) as DistributionModel[]).map((model) => (
+          <option key={model} value={model}>{DISTRIBUTION_MODEL_LABELS[model]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useStore } from '@/lib/store';
+import { DEFAULT_RESULT_FILTERS, FACET_LABELS, facetOptions, isFiltering, RESULT_SORT_LABELS } from '@/lib/facets';
+import { Facet, ResultSort } from '@/lib/types';
+
+interface FilterBarProps {
+  describe: (deliverableId: string) => string; // Deliverable text as shown on the cards
+  shown: number; // Results left after filtering
+}
+
+export default function FilterBar({ describe, shown }: FilterBarProps) {
+  const { searchResults, resultFilters, setResultFilters } = useStore();
+
+  const options = useMemo(
+    () =>
+      (Object.keys(FACET_LABELS) as Facet[]).map((facet) => ({
+        facet,
+        values: facetOptions(searchResults, resultFilters, facet, describe),
+      })),
+    [searchResults, resultFilters, describe]
+  );
+
+  const toggle = (facet: Facet, value: string) => {
+    const selected = resultFilters.facets[facet];
+    setResultFilters({
+      ...resultFilters,
+      facets: {
+        ...resultFilters.facets,
+        [facet]: selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value],
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="search"
+          className="flex-1 min-w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Filter by covered or missing deliverables, e.g. reminders"
+          value={resultFilters.text}
+          onChange={(e) => setResultFilters({ ...resultFilters, text: e.target.value })}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Sort by
+          <select
+            value={resultFilters.sort}
+            onChange={(e) => setResultFilters({ ...resultFilters, sort: e.target.value as ResultSort })}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            {(Object.keys(RESULT_SORT_LABELS) as ResultSort[]).map((sort) => (
+              <option key={sort} value={sort}>{RESULT_SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {options.map(({ facet, values }) => (
+          <div key={facet}>
+            <h3 className="text-xs font-medium text-gray-500 uppercase mb-1">{FACET_LABELS[facet]}</h3>
+            <ul className="space-y-1">
+              {values.map(({ value, label, count }) => (
+                <li key={value}>
+                  <label className={`flex items-center gap-2 text-sm ${count === 0 ? 'text-gray-400' : 'text-gray-700'}`}>
+                    <input
+                      type="checkbox"
+                      checked={resultFilters.facets[facet].includes(value)}
+                      onChange={() => toggle(facet, value)}
+                    />
+                    <span className="truncate">{label}</span>
+                    <span className="text-xs text-gray-400">{count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {isFiltering(resultFilters) && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>Showing {shown} of {searchResults.length} repositories</span>
+          <button
+            onClick={() => setResultFilters({ ...DEFAULT_RESULT_FILTERS, sort: resultFilters.sort })}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
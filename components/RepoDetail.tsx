@@ -2,11 +2,54 @@
 
 import { useEffect, useState } from 'react';
 import { useStore } from '@/lib/store';
+import { rehydrate } from '@/lib/redaction';
+import { HEALTH_LABELS, HEALTH_SIGNAL_LABELS } from '@/lib/health';
+import {
+  DISTRIBUTION_MODEL_LABELS,
+  LICENSE_CLASS_LABELS,
+  LICENSE_COMPATIBILITY_LABELS,
+} from '@/lib/licenses';
+import { formatSize } from '@/lib/fingerprint';
+import { HealthLabel, IntegrationStatus, LicenseCompatibility } from '@/lib/types';
+
+const INTEGRATION_STATUS_LABELS: Record<IntegrationStatus, string> = {
+  verified: 'Verified in code',
+  mentioned: 'Mentioned only',
+  absent: 'Absent',
+};
+
+const INTEGRATION_STATUS_STYLES: Record<IntegrationStatus, string> = {
+  verified: 'bg-green-100 text-green-800',
+  mentioned: 'bg-yellow-100 text-yellow-800',
+  absent: 'bg-red-100 text-red-800',
+};
+
+const HEALTH_STYLES: Record<HealthLabel, string> = {
+  healthy: 'bg-green-100 text-green-800',
+  fair: 'bg-yellow-100 text-yellow-800',
+  poor: 'bg-red-100 text-red-800',
+  archived: 'bg-gray-200 text-gray-800',
+};
+
+const LICENSE_COMPATIBILITY_STYLES: Record<LicenseCompatibility, string> = {
+  compatible: 'bg-green-100 text-green-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  incompatible: 'bg-red-100 text-red-800',
+};
+
+// Segments of the size-by-language bar, largest language first
+const LANGUAGE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-yellow-500', 'bg-purple-500', 'bg-pink-500', 'bg-gray-400'];
 
 export default function RepoDetail() {
   const {
     selectedRepo,
     analysis,
+    questionAnswers,
+    additionalContext,
+    distributionModel,
+    redactionTerms,
+    redactions,
+    addRedactions,
     setSelectedRepo,
     isLoadingDetail,
     setIsLoadingDetail,
@@ -16,7 +59,8 @@ export default function RepoDetail() {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (selectedRepo && !selectedRepo.readmeSummary) {
+    // A degraded detail has no summary either; it is retried from the button, not on every render
+    if (selectedRepo && !selectedRepo.readmeSummary && !selectedRepo.degraded) {
       fetchDetailedInfo();
     }
   }, [selectedRepo]);
@@ -37,6 +81,11 @@ export default function RepoDetail() {
           owner: selectedRepo.owner,
           name: selectedRepo.name,
           analysis,
+          questionAnswers,
+          additionalContext,
+          distributionModel,
+          redactionTerms,
+          redactions,
         }),
       });
 
@@ -46,6 +95,7 @@ export default function RepoDetail() {
       }
 
       const data = await response.json();
+      addRedactions(data.redactions ?? []);
       setSelectedRepo(data.detail);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load details');
@@ -132,11 +182,10 @@ export default function RepoDetail() {
 
   if (!selectedRepo) return null;
 
-  const healthBadgeColor = {
-    active: 'bg-green-100 text-green-800',
-    stale: 'bg-yellow-100 text-yellow-800',
-    abandoned: 'bg-red-100 text-red-800',
-  }[selectedRepo.healthStatus];
+  const { health, license, dependencies, fingerprint } = selectedRepo;
+
+  // Share of the listed languages' bytes, for the size bar
+  const languageBytes = fingerprint?.languages.reduce((sum, size) => sum + size.bytes, 0) ?? 0;
 
   return (
     <div className="w-full max-w-6xl mx-auto p-6 space-y-6">
@@ -186,15 +235,62 @@ export default function RepoDetail() {
         </div>
       </div>
 
+      {/* License, checked against the distribution model */}
+      <div
+        className={`bg-white rounded-lg shadow-lg p-6 ${
+          license.compatibility === 'incompatible' ? 'border-2 border-red-300' : ''
+        }`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold text-gray-900">License</h2>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${LICENSE_COMPATIBILITY_STYLES[license.compatibility]}`}>
+            {LICENSE_COMPATIBILITY_LABELS[license.compatibility]}
+          </span>
+        </div>
+        <p className="text-gray-800">
+          <span className="font-mono">{license.license ?? 'No license'}</span>
+          {' - '}{LICENSE_CLASS_LABELS[license.licenseClass]}
+        </p>
+        <p className="text-sm text-gray-600 mt-1">{license.reason}</p>
+        <p className="text-xs text-gray-500 mt-2">
+          Distribution model:{' '}
+          {license.distributionModel ? DISTRIBUTION_MODEL_LABELS[license.distributionModel] : 'not stated'}
+        </p>
+      </div>
+
       {/* Repository Health */}
       <div className="bg-white rounded-lg shadow-lg p-6">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-gray-900">Repository Health</h2>
-          <span className={`px-3 py-1 rounded-full text-sm font-medium ${healthBadgeColor}`}>
-            {selectedRepo.healthStatus.charAt(0).toUpperCase() + selectedRepo.healthStatus.slice(1)}
-          </span>
+          {health && (
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${HEALTH_STYLES[health.label]}`}>
+              {HEALTH_LABELS[health.label]} · {health.score}/100
+            </span>
+          )}
         </div>
 
+        {health ? (
+          <ul className="mb-6 space-y-3">
+            {health.signals.map((signal) => (
+              <li key={signal.signal} title={`Weight ${signal.weight}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-800">{HEALTH_SIGNAL_LABELS[signal.signal]}</span>
+                  <span className="text-gray-600">+{Math.round(signal.points)}</span>
+                </div>
+                <div className="mt-1 h-2 bg-gray-100 rounded-full">
+                  <div
+                    className="h-2 bg-blue-500 rounded-full"
+                    style={{ width: `${Math.round(signal.value * 100)}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-600 mt-1">{signal.detail}</p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mb-6 text-sm text-gray-600">Health signals could not be read from GitHub.</p>
+        )}
+
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <div className="text-2xl font-bold text-gray-900">
@@ -233,87 +329,307 @@ export default function RepoDetail() {
       {/* README Summary */}
       <div className="bg-white rounded-lg shadow-lg p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">What This Repository Does</h2>
-        <p className="text-gray-700 leading-relaxed">{selectedRepo.readmeSummary}</p>
+        {selectedRepo.readmeSummary ? (
+          <p className="text-gray-700 leading-relaxed">{rehydrate(selectedRepo.readmeSummary, redactions)}</p>
+        ) : (
+          <p className="text-gray-500 italic">Analysis unavailable</p>
+        )}
       </div>
 
-      {/* SOW Fit Analysis */}
-      <div className="bg-white rounded-lg shadow-lg p-6">
-        <h2 className="text-xl font-semibold text-gray-900 mb-6">SOW Fit Analysis</h2>
+      {/* What's inside, from the file tree */}
+      {fingerprint && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">What&apos;s Inside</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {fingerprint.files.toLocaleString()}{fingerprint.truncated && '+'} files on the default branch
+            {fingerprint.frameworks.length > 0 && ` · ${fingerprint.frameworks.join(', ')}`}
+          </p>
 
-        {/* What it covers */}
-        <div className="mb-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-3 flex items-center gap-2">
-            <svg
-              className="h-5 w-5 text-green-600"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M5 13l4 4L19 7"
-              />
-            </svg>
-            What This Repo Covers
-          </h3>
-          <ul className="space-y-2">
-            {selectedRepo.fitAnalysis.covers.map((item, idx) => (
-              <li key={idx} className="flex items-start gap-3 text-gray-700">
-                <span className="text-green-600 mt-1">•</span>
-                <span>{item}</span>
-              </li>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+            {[
+              {
+                label: 'Tests',
+                found: fingerprint.tests.files > 0,
+                detail: `${fingerprint.tests.files} files${
+                  fingerprint.tests.frameworks.length > 0 ? ` · ${fingerprint.tests.frameworks.join(', ')}` : ''
+                }`,
+              },
+              { label: 'CI', found: fingerprint.ci.length > 0, detail: fingerprint.ci.join(', ') },
+              { label: 'Docker', found: fingerprint.docker.length > 0, detail: fingerprint.docker.join(', ') },
+              {
+                label: 'Migrations',
+                found: fingerprint.migrations.files > 0,
+                detail: `${fingerprint.migrations.files} files in ${fingerprint.migrations.dirs.join(', ')}`,
+              },
+              {
+                label: 'Translations',
+                found: fingerprint.i18n.files > 0,
+                detail: fingerprint.i18n.locales.length > 0
+                  ? fingerprint.i18n.locales.join(', ')
+                  : `${fingerprint.i18n.files} files`,
+              },
+              {
+                label: 'Docs folder',
+                found: fingerprint.docs !== null,
+                detail: fingerprint.docs ? `${fingerprint.docs.dir}/ · ${fingerprint.docs.files} files` : '',
+              },
+            ].map(({ label, found, detail }) => (
+              <div key={label} className={`p-3 rounded-lg ${found ? 'bg-green-50' : 'bg-gray-50'}`}>
+                <div className={`text-sm font-medium ${found ? 'text-green-800' : 'text-gray-500'}`}>
+                  {found ? '✓' : '✗'} {label}
+                </div>
+                {found && <div className="text-xs text-gray-600 mt-1 truncate" title={detail}>{detail}</div>}
+              </div>
             ))}
-          </ul>
+          </div>
+
+          {fingerprint.languages.length > 0 && (
+            <div>
+              <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+                {fingerprint.languages.map((size, idx) => (
+                  <div
+                    key={size.language}
+                    className={LANGUAGE_COLORS[idx % LANGUAGE_COLORS.length]}
+                    style={{ width: `${languageBytes > 0 ? (size.bytes / languageBytes) * 100 : 0}%` }}
+                  />
+                ))}
+              </div>
+              <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                {fingerprint.languages.map((size) => (
+                  <li key={size.language}>
+                    {size.language} {formatSize(size.bytes)} ({size.files} files)
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
+      )}
 
-        {/* Gaps */}
-        <div className="mb-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-3 flex items-center gap-2">
-            <svg
-              className="h-5 w-5 text-orange-600"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-              />
-            </svg>
-            What You'd Still Need to Build
-          </h3>
-          <ul className="space-y-2">
-            {selectedRepo.fitAnalysis.gaps.map((item, idx) => (
-              <li key={idx} className="flex items-start gap-3 text-gray-700">
-                <span className="text-orange-600 mt-1">•</span>
-                <span>{item}</span>
+      {/* Integrations, checked in the code */}
+      {selectedRepo.integrations.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">SOW Integrations</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Checked in the repository&apos;s dependency manifests and code, not taken from the README
+          </p>
+          <ul className="space-y-4">
+            {selectedRepo.integrations.map((check, idx) => (
+              <li key={idx}>
+                <div className="flex items-start justify-between gap-4">
+                  <span className="text-gray-800">{rehydrate(check.integration, redactions)}</span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${INTEGRATION_STATUS_STYLES[check.status]}`}>
+                    {INTEGRATION_STATUS_LABELS[check.status]}
+                  </span>
+                </div>
+                {check.keyword === null ? (
+                  <p className="text-xs text-gray-500 mt-1">No product name to look for</p>
+                ) : check.evidence.length > 0 ? (
+                  <ul className="mt-1 space-y-0.5">
+                    {check.evidence.map((item) => (
+                      <li key={`${item.kind}:${item.path}:${item.detail}`} className="text-xs text-gray-600">
+                        <a
+                          href={item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-blue-600 hover:text-blue-700"
+                        >
+                          {item.path}
+                        </a>
+                        {' - '}{item.detail}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {check.status === 'mentioned'
+                      ? `Only the README mentions ${check.vendor ?? check.keyword}`
+                      : `No dependency or file refers to ${check.vendor ?? check.keyword}`}
+                  </p>
+                )}
               </li>
             ))}
           </ul>
         </div>
+      )}
 
-        {/* Time Saved */}
-        <div className="mb-6 p-4 bg-blue-50 rounded-lg">
-          <h3 className="text-lg font-medium text-gray-900 mb-2">Estimated Time Saved</h3>
-          <p className="text-blue-900 font-semibold">{selectedRepo.fitAnalysis.timeSaved}</p>
-        </div>
+      {/* Dependencies, from the manifests and package registries */}
+      {dependencies && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">Dependencies</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {dependencies.dependencies} runtime and {dependencies.devDependencies} development dependencies in{' '}
+            <span className="font-mono">{dependencies.manifests.join(', ')}</span>
+          </p>
 
-        {/* Recommended Modifications */}
-        <div className="mb-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-3">Recommended Modifications</h3>
-          <ul className="space-y-2">
-            {selectedRepo.fitAnalysis.recommendedModifications.map((item, idx) => (
-              <li key={idx} className="flex items-start gap-3 text-gray-700">
-                <span className="text-blue-600 mt-1">→</span>
-                <span>{item}</span>
-              </li>
-            ))}
-          </ul>
+          {(dependencies.runtimes.length > 0 || dependencies.frameworks.length > 0) && (
+            <ul className="mb-4 space-y-1 text-sm">
+              {dependencies.runtimes.map((runtime) => (
+                <li key={`${runtime.path}:${runtime.runtime}:${runtime.version}`} className="flex items-center gap-2">
+                  <span className="text-gray-800">{runtime.runtime} {runtime.version}</span>
+                  {runtime.endOfLife && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      End of life since {runtime.endOfLife}
+                    </span>
+                  )}
+                </li>
+              ))}
+              {dependencies.frameworks.map((framework) => (
+                <li key={`${framework.path}:${framework.name}`} className="flex items-center gap-2">
+                  <span className="text-gray-800">{framework.framework} {framework.declared ?? ''}</span>
+                  {framework.latest && (
+                    <span className="text-xs text-gray-500">latest {framework.latest}</span>
+                  )}
+                  {framework.majorsBehind !== null && framework.majorsBehind > 0 && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      {framework.majorsBehind} major{framework.majorsBehind === 1 ? '' : 's'} behind
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {dependencies.outdated.length > 0 ? (
+            <details>
+              <summary className="text-sm text-gray-700 cursor-pointer">
+                {dependencies.outdated.length} of {dependencies.checked} checked dependencies are major versions behind
+              </summary>
+              <ul className="mt-2 space-y-0.5">
+                {dependencies.outdated.map((dependency) => (
+                  <li key={`${dependency.ecosystem}:${dependency.name}`} className="text-xs text-gray-600">
+                    <span className="font-mono">{dependency.name}</span> {dependency.declared}, latest {dependency.latest}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ) : dependencies.checked > 0 && (
+            <p className="text-sm text-gray-600">
+              None of the {dependencies.checked} checked dependencies is a major version behind
+            </p>
+          )}
         </div>
+      )}
+
+      {/* SOW Fit Analysis */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-6">SOW Fit Analysis</h2>
+
+        {selectedRepo.degraded ? (
+          <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800 flex items-center justify-between gap-4">
+            <span>Analysis unavailable: the AI analysis for this repository could not be validated.</span>
+            <button
+              onClick={fetchDetailedInfo}
+              disabled={isLoadingDetail}
+              className="px-3 py-1 bg-orange-600 text-white rounded hover:bg-orange-700 disabled:opacity-50 whitespace-nowrap"
+            >
+              Retry
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* What it covers */}
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-3 flex items-center gap-2">
+                <svg
+                  className="h-5 w-5 text-green-600"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M5 13l4 4L19 7"
+                  />
+                </svg>
+                What This Repo Covers
+              </h3>
+              <ul className="space-y-2">
+                {selectedRepo.fitAnalysis.covers.map((item, idx) => {
+                  const sources = (selectedRepo.fitAnalysis.coverSources[idx] ?? [])
+                    .map((id) => selectedRepo.docSections.find((section) => section.id === id))
+                    .filter((section) => section !== undefined);
+
+                  return (
+                    <li key={idx} className="flex items-start gap-3 text-gray-700">
+                      <span className="text-green-600 mt-1">•</span>
+                      <div>
+                        <span>{rehydrate(item, redactions)}</span>
+                        {sources.length > 0 && (
+                          <ul className="mt-1 space-y-0.5">
+                            {sources.map((section) => (
+                              <li key={section.id} className="text-xs text-gray-600">
+                                <a
+                                  href={section.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  title={section.text}
+                                  className="font-mono text-blue-600 hover:text-blue-700"
+                                >
+                                  {section.path}
+                                </a>
+                                {' > '}{section.heading}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+
+            {/* Gaps */}
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-3 flex items-center gap-2">
+                <svg
+                  className="h-5 w-5 text-orange-600"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                  />
+                </svg>
+                What You'd Still Need to Build
+              </h3>
+              <ul className="space-y-2">
+                {selectedRepo.fitAnalysis.gaps.map((item, idx) => (
+                  <li key={idx} className="flex items-start gap-3 text-gray-700">
+                    <span className="text-orange-600 mt-1">•</span>
+                    <span>{rehydrate(item, redactions)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Time Saved */}
+            <div className="mb-6 p-4 bg-blue-50 rounded-lg">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Estimated Time Saved</h3>
+              <p className="text-blue-900 font-semibold">{rehydrate(selectedRepo.fitAnalysis.timeSaved, redactions)}</p>
+            </div>
+
+            {/* Recommended Modifications */}
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-3">Recommended Modifications</h3>
+              <ul className="space-y-2">
+                {selectedRepo.fitAnalysis.recommendedModifications.map((item, idx) => (
+                  <li key={idx} className="flex items-start gap-3 text-gray-700">
+                    <span className="text-blue-600 mt-1">→</span>
+                    <span>{rehydrate(item, redactions)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
 
         {/* Risks & Concerns */}
         {selectedRepo.fitAnalysis.risks.length > 0 && (
@@ -338,7 +654,7 @@ export default function RepoDetail() {
               {selectedRepo.fitAnalysis.risks.map((item, idx) => (
                 <li key={idx} className="flex items-start gap-3 text-gray-700">
                   <span className="text-red-600 mt-1">⚠</span>
-                  <span>{item}</span>
+                  <span>{rehydrate(item, redactions)}</span>
                 </li>
               ))}
             </ul>
@@ -1,11 +1,219 @@
 'use client';
 
+import { useCallback, useMemo, useState } from 'react';
 import { useStore } from '@/lib/store';
+import { rehydrate } from '@/lib/redaction';
+import { resolveAnswers } from '@/lib/context';
+import { DEFAULT_RANKING_WEIGHTS, preferredLanguages, RANKING_FACTOR_LABELS, rankRepo } from '@/lib/ranking';
+import { DeliverableCoverage, LicenseCompatibility, RankingFactor, RepoResult } from '@/lib/types';
+import { streamSearch } from '@/lib/search';
+import { CONSTRAINT_RULE_LABELS } from '@/lib/constraints';
+import { compareRepos, filterRepos, isFiltering } from '@/lib/facets';
+import { HEALTH_LABELS } from '@/lib/health';
+import {
+  assessLicense,
+  DISTRIBUTION_MODEL_LABELS,
+  LICENSE_CLASS_LABELS,
+  LICENSE_COMPATIBILITY_LABELS,
+  resolveDistributionModel,
+} from '@/lib/licenses';
+import StackBuilder from '@/components/StackBuilder';
+import FilterBar from '@/components/FilterBar';
+
+const RESULTS_PER_PAGE = 10;
+
+// Compatible licenses need no badge
+const LICENSE_FLAG_STYLES: Record<Exclude<LicenseCompatibility, 'compatible'>, string> = {
+  review: 'bg-yellow-50 text-yellow-700',
+  incompatible: 'bg-red-100 text-red-800',
+};
 
 export default function SearchResults() {
-  const { searchResults, setSelectedRepo, setIsLoadingDetail, reset } = useStore();
+  const {
+    analysis,
+    questionAnswers,
+    additionalContext,
+    constraints,
+    distributionModel,
+    searchResults,
+    searchProgress,
+    setSearchProgress,
+    addSearchResult,
+    addUnanalyzedResult,
+    beginDeeperSearch,
+    completeSearch,
+    searchCursor,
+    resultsPage,
+    setResultsPage,
+    resultFilters,
+    rankingWeights,
+    setRankingWeights,
+    unanalyzedResults,
+    resolveUnanalyzedResult,
+    excludedResults,
+    isSearching,
+    error,
+    setError,
+    setIsSearching,
+    redactionTerms,
+    redactions,
+    addRedactions,
+    setSelectedRepo,
+    setIsLoadingDetail,
+    reset,
+  } = useStore();
+
+  const [retrying, setRetrying] = useState<number[]>([]);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const [deeperMessage, setDeeperMessage] = useState<string | null>(null);
+
+  // Tech preference from the user's answers, for the language factor
+  const languages = useMemo(
+    () => preferredLanguages(resolveAnswers(analysis?.questions ?? [], questionAnswers), additionalContext),
+    [analysis, questionAnswers, additionalContext]
+  );
+
+  // Distribution model the licenses are checked against
+  const distribution = useMemo(
+    () => resolveDistributionModel(distributionModel, resolveAnswers(analysis?.questions ?? [], questionAnswers), additionalContext),
+    [distributionModel, analysis, questionAnswers, additionalContext]
+  );
+
+  // Results in ranking order, each with its score breakdown. Each search
+  // round is ranked on its own and follows the earlier ones, so searching
+  // deeper never moves results the user has already seen.
+  const rankedResults = useMemo(
+    () =>
+      searchResults
+        .map((repo) => ({
+          repo,
+          score: rankRepo(repo, { weights: rankingWeights, languages, distribution }),
+          license: assessLicense(repo.license, distribution),
+        }))
+        .sort((a, b) => a.repo.round - b.repo.round || b.score.total - a.score.total),
+    [searchResults, rankingWeights, languages, distribution]
+  );
+
+  // Deliverable IDs are shown with the deliverable they stand for
+  const deliverableText = useCallback(
+    (id: string) => {
+      const deliverable = analysis?.deliverables.find((item) => item.id === id);
+      return deliverable ? `${id}: ${rehydrate(deliverable.text, redactions)}` : id;
+    },
+    [analysis, redactions]
+  );
+
+  // Results left by the facets and text filter, in the chosen order
+  const filtering = isFiltering(resultFilters);
+  const visibleResults = useMemo(() => {
+    const visible = new Set(filterRepos(searchResults, resultFilters, deliverableText).map((repo) => repo.id));
+    const entries = rankedResults.filter(({ repo }) => visible.has(repo.id));
+    if (resultFilters.sort === 'score') return entries;
+
+    const compare = compareRepos(resultFilters.sort);
+    return [...entries].sort((a, b) => compare(a.repo, b.repo));
+  }, [searchResults, rankedResults, resultFilters, deliverableText]);
+
+  const pageCount = Math.max(1, Math.ceil(visibleResults.length / RESULTS_PER_PAGE));
+  const page = Math.min(resultsPage, pageCount - 1);
+  const pageResults = visibleResults.slice(page * RESULTS_PER_PAGE, (page + 1) * RESULTS_PER_PAGE);
+
+  const renderCoverage = (entry: DeliverableCoverage) => (
+    <li key={entry.deliverableId} className="flex items-start">
+      <span className="mr-2">•</span>
+      <span>
+        {deliverableText(entry.deliverableId)}
+        {entry.level === 'partial' && <span className="ml-1 text-xs text-yellow-700">(partial)</span>}
+        {entry.justification && (
+          <span className="block text-xs text-gray-500">{rehydrate(entry.justification, redactions)}</span>
+        )}
+      </span>
+    </li>
+  );
+
+  // Re-run the coverage analysis of a repo whose analysis failed
+  const handleRetry = async (repo: RepoResult) => {
+    setRetrying((ids) => [...ids, repo.id]);
+    setRetryError(null);
+
+    try {
+      const response = await fetch('/api/repo-coverage', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          repo,
+          analysis,
+          questionAnswers,
+          additionalContext,
+          redactionTerms,
+          redactions,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze coverage');
+      }
+
+      addRedactions(data.redactions ?? []);
+      resolveUnanalyzedResult(data.repo, data.relevant);
+      if (data.repo.status === 'analyzed' && !data.relevant) {
+        setRetryError(`${repo.fullName} was analyzed, but covers none of the deliverables`);
+      }
+    } catch (err) {
+      setRetryError(err instanceof Error ? err.message : 'Failed to analyze coverage');
+    } finally {
+      setRetrying((ids) => ids.filter((id) => id !== repo.id));
+    }
+  };
+
+  // Fetch further GitHub pages and analyze the next best candidates
+  const handleSearchDeeper = async () => {
+    if (!analysis || !searchCursor) return;
+    beginDeeperSearch();
+    setDeeperMessage(null);
+    const previousCount = searchResults.length;
+
+    try {
+      const round = await streamSearch(
+        {
+          analysis,
+          questionAnswers,
+          additionalContext,
+          constraints,
+          distributionModel,
+          redactionTerms,
+          redactions,
+          cursor: searchCursor,
+        },
+        {
+          onRedactions: addRedactions,
+          // The queries were planned in the first round
+          onProgress: (progress) => setSearchProgress({ ...progress, planned: searchProgress?.planned ?? false }),
+          onRepo: (repo, relevant) => {
+            if (relevant) addSearchResult(repo);
+            else if (repo.status === 'unanalyzed') addUnanalyzedResult(repo);
+          },
+        }
+      );
+      completeSearch(round);
+
+      // In ranking order, new results follow the earlier ones; open the page
+      // where they start
+      if (round.results.length > 0) {
+        if (resultFilters.sort === 'score' && !filtering) setResultsPage(Math.floor(previousCount / RESULTS_PER_PAGE));
+      } else {
+        setDeeperMessage(round.message || 'No further matching repositories found');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search repositories');
+      setIsSearching(false);
+    }
+  };
 
-  const handleRepoClick = async (repo: any) => {
+  const handleRepoClick = async (repo: RepoResult) => {
     setIsLoadingDetail(true);
 
     // For now, we'll just set the selected repo
@@ -21,19 +229,26 @@ export default function SearchResults() {
       openIssues: 0,
       contributors: 0,
       lastCommit: repo.lastActivity,
-      healthStatus: 'active',
+      health: repo.health,
+      license: assessLicense(repo.license, distribution),
       readmeSummary: '',
+      docSections: [],
+      integrations: [],
+      dependencies: null,
+      fingerprint: null,
       fitAnalysis: {
-        covers: repo.covers,
-        gaps: repo.gaps,
+        covers: repo.covers.map(deliverableText),
+        coverSources: repo.covers.map(() => []),
+        gaps: repo.gaps.map(deliverableText),
         timeSaved: '',
         recommendedModifications: [],
         risks: [],
       },
+      degraded: false,
     });
   };
 
-  if (searchResults.length === 0) {
+  if (searchResults.length === 0 && unanalyzedResults.length === 0 && !isSearching) {
     return (
       <div className="w-full max-w-4xl mx-auto p-6">
         <div className="bg-white rounded-lg shadow-lg p-8 text-center">
@@ -51,10 +266,12 @@ export default function SearchResults() {
             />
           </svg>
           <h2 className="mt-4 text-xl font-semibold text-gray-900">
-            No repositories found
+            {error ? 'Search failed' : 'No repositories found'}
           </h2>
           <p className="mt-2 text-gray-600">
-            Try adjusting your requirements or adding more context.
+            {error || (excludedResults.length > 0
+              ? `${excludedResults.length} repositories were found, but all break your constraints. Try relaxing them.`
+              : 'Try adjusting your requirements or adding more context.')}
           </p>
           <button
             onClick={reset}
@@ -75,7 +292,15 @@ export default function SearchResults() {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">GitHub Search Results</h1>
             <p className="text-gray-600 mt-1">
-              Found {searchResults.length} repositories that match your requirements
+              {isSearching
+                ? `Searching... ${searchResults.length} matching repositories so far`
+                : `Found ${searchResults.length} repositories that match your requirements`}
+              {unanalyzedResults.length > 0 && `; ${unanalyzedResults.length} could not be analyzed`}
+              {excludedResults.length > 0 && `; ${excludedResults.length} excluded by your constraints`}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              Licenses checked against:{' '}
+              {distribution ? DISTRIBUTION_MODEL_LABELS[distribution] : 'no distribution model stated, so only permissive licenses count as compatible'}
             </p>
           </div>
           <button
@@ -87,9 +312,109 @@ export default function SearchResults() {
         </div>
       </div>
 
+      {/* Search Progress */}
+      {searchProgress && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+          {searchProgress.queries.length > 0 && (
+            <div>
+              <h2 className="text-sm font-medium text-gray-700 mb-2">
+                GitHub queries{!searchProgress.planned && ' (keyword fallback)'}
+              </h2>
+              <ul className="space-y-1">
+                {searchProgress.queries.map((query, idx) => (
+                  <li key={idx} className="text-sm text-gray-600">
+                    <span className="font-medium text-gray-800">{rehydrate(query.intent, redactions)}:</span>{' '}
+                    <code className="text-xs px-1 bg-gray-100 rounded">{query.query}</code>
+                    {query.error ? (
+                      <span className="text-orange-700"> - {query.error}</span>
+                    ) : query.results !== undefined && (
+                      <span className="text-gray-500"> - {query.results.toLocaleString()} results</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {searchProgress.warning && (
+            <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+              {searchProgress.warning}. Some queries were not run, so results are incomplete; search deeper once the limit resets.
+            </div>
+          )}
+          <p className="text-sm text-gray-600">
+            {searchProgress.fetched === null
+              ? 'Searching GitHub...'
+              : `GitHub returned ${searchProgress.fetched} new repositories${
+                  searchProgress.excluded > 0 ? `, ${searchProgress.excluded} excluded by your constraints` : ''
+                }; coverage estimated for ${searchProgress.analyzed} of the ${searchProgress.total} best text matches`}
+          </p>
+          {isSearching && searchProgress.total > 0 && (
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${(searchProgress.analyzed / searchProgress.total) * 100}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Error Display */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
+          {error}
+        </div>
+      )}
+
+      {/* Multi-repo stack */}
+      <StackBuilder />
+
+      {/* Ranking Weights */}
+      <details className="bg-white rounded-lg shadow-lg p-6">
+        <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+          Ranking weights
+        </summary>
+        <div className="mt-4 grid md:grid-cols-2 gap-x-8 gap-y-3">
+          {(Object.keys(RANKING_FACTOR_LABELS) as RankingFactor[]).map((factor) => (
+            <label key={factor} className="flex items-center gap-3 text-sm text-gray-600">
+              <span className="w-32">{RANKING_FACTOR_LABELS[factor]}</span>
+              <input
+                type="range"
+                min={0}
+                max={5}
+                value={rankingWeights[factor]}
+                onChange={(e) => setRankingWeights({ ...rankingWeights, [factor]: Number(e.target.value) })}
+                className="flex-1"
+              />
+              <span className="w-4 text-right">{rankingWeights[factor]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="mt-4 flex items-center justify-between text-xs text-gray-500">
+          <span>
+            {languages.length > 0
+              ? `Tech preference: ${languages.join(', ')}`
+              : 'No tech preference answered - the tech preference weight is not used'}
+          </span>
+          <button
+            onClick={() => setRankingWeights(DEFAULT_RANKING_WEIGHTS)}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </details>
+
+      {/* Filters and sort order */}
+      <FilterBar describe={deliverableText} shown={visibleResults.length} />
+
       {/* Results Grid */}
       <div className="grid gap-4">
-        {searchResults.map((repo) => (
+        {visibleResults.length === 0 && searchResults.length > 0 && (
+          <div className="bg-white rounded-lg shadow-lg p-6 text-center text-gray-600">
+            No repositories match the filters
+          </div>
+        )}
+        {pageResults.map(({ repo, score, license }) => (
           <div
             key={repo.id}
             onClick={() => handleRepoClick(repo)}
@@ -107,6 +432,25 @@ export default function SearchResults() {
                       {repo.language}
                     </span>
                   )}
+                  {repo.archived && (
+                    <span className="text-xs px-2 py-1 bg-red-50 text-red-700 rounded">Archived</span>
+                  )}
+                  {repo.isFork && (
+                    <span className="text-xs px-2 py-1 bg-yellow-50 text-yellow-700 rounded">Fork</span>
+                  )}
+                  {license.compatibility !== 'compatible' && (
+                    <span
+                      title={license.reason}
+                      className={`text-xs px-2 py-1 rounded ${LICENSE_FLAG_STYLES[license.compatibility]}`}
+                    >
+                      License: {LICENSE_COMPATIBILITY_LABELS[license.compatibility].toLowerCase()}
+                    </span>
+                  )}
+                  {repo.round > 0 && (
+                    <span className="text-xs px-2 py-1 bg-blue-50 text-blue-700 rounded">
+                      Deeper search {repo.round}
+                    </span>
+                  )}
                 </div>
 
                 {/* Description */}
@@ -127,13 +471,51 @@ export default function SearchResults() {
                     {repo.stars.toLocaleString()}
                   </div>
                   <div>
-                    Last updated: {new Date(repo.lastActivity).toLocaleDateString()}
+                    Last push: {new Date(repo.pushedAt).toLocaleDateString()}
+                  </div>
+                  {repo.health && (
+                    <div title="Health score from commits, releases, response time, closed issues and bus factor">
+                      Health: {HEALTH_LABELS[repo.health.label]} ({repo.health.score}/100)
+                    </div>
+                  )}
+                  <div title={license.reason}>
+                    {repo.license
+                      ? `${repo.license} (${LICENSE_CLASS_LABELS[license.licenseClass].toLowerCase()})`
+                      : 'No license'}
                   </div>
+                  {repo.foundBy?.length > 0 && (
+                    <div title="Search queries that returned this repository">
+                      Found by: {repo.foundBy.join(', ')}
+                    </div>
+                  )}
                 </div>
 
-                {/* Coverage Badge */}
+                {/* Ranking Score */}
                 <div className="mb-4">
                   <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-700">Score:</span>
+                    <span className="text-lg font-bold text-gray-900">{score.total}</span>
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {score.components.map((component) => (
+                      <span
+                        key={component.factor}
+                        title={`${component.detail} (weight ${component.weight})`}
+                        className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded"
+                      >
+                        {RANKING_FACTOR_LABELS[component.factor]} +{Math.round(component.points)}
+                        <span className="text-gray-500"> · {component.detail}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Coverage Badge */}
+                <div className="mb-4">
+                  <div
+                    className="flex items-center gap-2"
+                    title="Priority-weighted share of deliverables: full coverage counts fully, partial coverage half"
+                  >
                     <span className="text-sm font-medium text-gray-700">SOW Coverage:</span>
                     <span
                       className={`text-lg font-bold ${
@@ -144,7 +526,7 @@ export default function SearchResults() {
                           : 'text-orange-600'
                       }`}
                     >
-                      ~{repo.coveragePercentage}%
+                      {repo.coveragePercentage}%
                     </span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
@@ -181,12 +563,11 @@ export default function SearchResults() {
                       Covers
                     </h3>
                     <ul className="text-sm text-gray-600 space-y-1">
-                      {repo.covers.slice(0, 3).map((item: string, idx: number) => (
-                        <li key={idx} className="flex items-start">
-                          <span className="mr-2">•</span>
-                          <span>{item}</span>
-                        </li>
-                      ))}
+                      {repo.coverage
+                        .filter((entry) => entry.level !== 'none')
+                        .sort((a, b) => (a.level === b.level ? 0 : a.level === 'full' ? -1 : 1))
+                        .slice(0, 3)
+                        .map(renderCoverage)}
                     </ul>
                   </div>
 
@@ -208,12 +589,11 @@ export default function SearchResults() {
                       You'd still need to build
                     </h3>
                     <ul className="text-sm text-gray-600 space-y-1">
-                      {repo.gaps.slice(0, 3).map((item: string, idx: number) => (
-                        <li key={idx} className="flex items-start">
-                          <span className="mr-2">•</span>
-                          <span>{item}</span>
-                        </li>
-                      ))}
+                      {repo.coverage
+                        .filter((entry) => entry.level !== 'full')
+                        .sort((a, b) => (a.level === b.level ? 0 : a.level === 'none' ? -1 : 1))
+                        .slice(0, 3)
+                        .map(renderCoverage)}
                     </ul>
                   </div>
                 </div>
@@ -240,6 +620,125 @@ export default function SearchResults() {
         ))}
       </div>
 
+      {/* Pagination */}
+      {(pageCount > 1 || searchCursor) && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setResultsPage(page - 1)}
+              disabled={page === 0}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setResultsPage(page + 1)}
+              disabled={page >= pageCount - 1}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              Next
+            </button>
+          </div>
+          {searchCursor && (
+            <div className="flex items-center justify-between gap-4 pt-3 border-t border-gray-100">
+              <p className="text-sm text-gray-600">
+                {searchCursor.exhausted
+                  ? 'All GitHub results for these queries have been searched.'
+                  : deeperMessage || 'Fetch more GitHub results and analyze the next best matches. Results so far keep their place.'}
+              </p>
+              {!searchCursor.exhausted && (
+                <button
+                  onClick={handleSearchDeeper}
+                  disabled={isSearching}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                >
+                  {isSearching ? 'Searching...' : 'Search deeper'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Repos whose coverage analysis failed - not ranked */}
+      {unanalyzedResults.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Not analyzed</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              GitHub returned these repositories, but their coverage could not be analyzed. They are not ranked.
+            </p>
+          </div>
+          {retryError && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              {retryError}
+            </div>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {unanalyzedResults.map((repo) => (
+              <li key={repo.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <a
+                    href={repo.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    {repo.fullName}
+                  </a>
+                  {repo.description && (
+                    <p className="text-sm text-gray-600">{repo.description}</p>
+                  )}
+                  <p className="text-xs text-red-700 mt-1">{repo.analysisError}</p>
+                </div>
+                <button
+                  onClick={() => handleRetry(repo)}
+                  disabled={retrying.includes(repo.id)}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                >
+                  {retrying.includes(repo.id) ? 'Analyzing...' : 'Retry'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Repos removed by the constraints, with the rules they break */}
+      {excludedResults.length > 0 && (
+        <details className="bg-white rounded-lg shadow-lg p-6">
+          <summary className="cursor-pointer">
+            <span className="text-lg font-semibold text-gray-900">Excluded by constraints</span>
+            <span className="text-sm text-gray-600"> ({excludedResults.length})</span>
+          </summary>
+          <ul className="mt-3 divide-y divide-gray-100">
+            {excludedResults.map(({ repo, violations }) => (
+              <li key={repo.id} className="py-3">
+                <a
+                  href={repo.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {repo.fullName}
+                </a>
+                <ul className="mt-1 space-y-0.5">
+                  {violations.map((violation) => (
+                    <li key={violation.rule} className="text-xs text-gray-600">
+                      <span className="font-medium text-red-700">{CONSTRAINT_RULE_LABELS[violation.rule]}:</span>{' '}
+                      {violation.detail}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       {/* Footer */}
       <div className="text-center text-sm text-gray-600">
         Click on any repository to view detailed analysis
@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useStore } from '@/lib/store';
+import { rehydrate } from '@/lib/redaction';
+import { buildStack, DEFAULT_MAX_STACK_SIZE } from '@/lib/stack';
+
+export default function StackBuilder() {
+  const { analysis, searchResults, redactions } = useStore();
+  const [maxSize, setMaxSize] = useState(DEFAULT_MAX_STACK_SIZE);
+
+  const deliverables = useMemo(() => analysis?.deliverables ?? [], [analysis]);
+  const stack = useMemo(
+    () => buildStack(searchResults, deliverables, maxSize),
+    [searchResults, deliverables, maxSize]
+  );
+
+  if (!stack) return null;
+
+  const deliverableText = (id: string) =>
+    `${id}: ${rehydrate(deliverables.find((deliverable) => deliverable.id === id)?.text ?? '', redactions)}`;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Suggested Stack</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {stack.members.length === 1 ? 'One repository covers' : `${stack.members.length} compatible repositories together cover`}{' '}
+            {stack.covered.length} of {deliverables.length} deliverables fully
+            {stack.partial.length > 0 && ` and ${stack.partial.length} partially`}
+            {stack.language && ` (${stack.language})`}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Up to
+          <select
+            value={maxSize}
+            onChange={(e) => setMaxSize(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            {[1, 2, 3, 4, 5].map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+          repos
+        </label>
+      </div>
+
+      {/* Combined coverage */}
+      <div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">Combined Coverage:</span>
+          <span className="text-lg font-bold text-blue-600">{stack.coveragePercentage}%</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+          <div className="h-2 rounded-full bg-blue-600" style={{ width: `${stack.coveragePercentage}%` }} />
+        </div>
+      </div>
+
+      {/* Members */}
+      <ul className="space-y-3">
+        {stack.members.map(({ repo, adds }) => (
+          <li key={repo.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex items-center gap-2">
+              <a
+                href={repo.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-blue-600 hover:text-blue-700"
+              >
+                {repo.fullName}
+              </a>
+              {repo.language && (
+                <span className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded">{repo.language}</span>
+              )}
+              <span className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded">
+                {repo.license || 'No license'}
+              </span>
+            </div>
+            <ul className="mt-2 text-sm text-gray-600 space-y-1">
+              {adds.map(({ deliverableId, level }) => (
+                <li key={deliverableId} className="flex items-start">
+                  <span className={`mr-2 ${level === 'full' ? 'text-green-600' : 'text-yellow-600'}`}>
+                    {level === 'full' ? '✓' : '◐'}
+                  </span>
+                  <span>
+                    {deliverableText(deliverableId)}
+                    {level === 'partial' && <span className="ml-1 text-xs text-yellow-700">(partial)</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+
+      {/* Still to build */}
+      {stack.uncovered.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Not covered by the stack</h3>
+          <ul className="text-sm text-gray-600 space-y-1">
+            {stack.uncovered.map(id => (
+              <li key={id} className="flex items-start">
+                <span className="mr-2">•</span>
+                <span>{deliverableText(id)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {stack.warnings.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 space-y-1">
+          {stack.warnings.map((warning, idx) => (
+            <p key={idx}>{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,24 +2,32 @@
 
 import { useState, useCallback, ChangeEvent, DragEvent } from 'react';
 import { useStore } from '@/lib/store';
+import { DOCUMENT_ROLES, DOCUMENT_ROLE_LABELS } from '@/lib/documents';
+import { DocumentRole } from '@/lib/types';
+
+interface SelectedFile {
+  file: File;
+  role: DocumentRole;
+}
 
 export default function UploadStep() {
-  const { setSOWContent } = useStore();
+  const { setDocuments, redactionTerms, setRedactionTerms } = useStore();
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
   const [pastedText, setPastedText] = useState('');
   const [uploadMode, setUploadMode] = useState<'file' | 'text'>('file');
+  const [redactionInput, setRedactionInput] = useState(redactionTerms.join(', '));
 
-  const ACCEPTED_FILE_TYPES = ['.pdf', '.txt', '.md'];
+  const ACCEPTED_FILE_TYPES = ['.pdf', '.docx', '.odt', '.rtf', '.txt', '.md'];
   const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
   const validateFile = (file: File): string | null => {
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
 
     if (!ACCEPTED_FILE_TYPES.includes(fileExtension)) {
-      return 'Please upload PDF, TXT, or MD files only';
+      return 'Please upload PDF, DOCX, ODT, RTF, TXT, or MD files only';
     }
 
     if (file.size > MAX_FILE_SIZE) {
@@ -29,16 +37,27 @@ export default function UploadStep() {
     return null;
   };
 
-  const handleFile = useCallback((file: File) => {
-    const validationError = validateFile(file);
+  const handleFiles = useCallback((files: FileList) => {
+    const accepted: File[] = [];
 
-    if (validationError) {
-      setError(validationError);
-      return;
+    for (const file of Array.from(files)) {
+      const validationError = validateFile(file);
+      if (validationError) {
+        setError(`${file.name}: ${validationError}`);
+        return;
+      }
+      accepted.push(file);
     }
 
     setError(null);
-    setSelectedFile(file);
+    setSelectedFiles((current) => [
+      ...current,
+      ...accepted.map((file, idx) => ({
+        file,
+        // First document defaults to the master SOW, the rest to addenda
+        role: (current.length === 0 && idx === 0 ? 'sow' : 'addendum') as DocumentRole,
+      })),
+    ]);
   }, []);
 
   const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
@@ -47,9 +66,9 @@ export default function UploadStep() {
 
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
-      handleFile(files[0]);
+      handleFiles(files);
     }
-  }, [handleFile]);
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -64,19 +83,39 @@ export default function UploadStep() {
   const handleFileInput = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFile(files[0]);
+      handleFiles(files);
     }
-  }, [handleFile]);
+    // Allow selecting the same file again after removing it
+    e.target.value = '';
+  }, [handleFiles]);
+
+  const setFileRole = (index: number, role: DocumentRole) => {
+    setSelectedFiles((current) =>
+      current.map((selected, idx) => (idx === index ? { ...selected, role } : selected))
+    );
+  };
+
+  const removeFile = (index: number) => {
+    setSelectedFiles((current) => current.filter((_, idx) => idx !== index));
+  };
 
   const handleSubmit = async () => {
     setIsUploading(true);
     setError(null);
 
+    // Custom terms are redacted alongside detected names, contacts and amounts
+    setRedactionTerms(
+      redactionInput.split(',').map((term) => term.trim()).filter(Boolean)
+    );
+
     try {
-      if (uploadMode === 'file' && selectedFile) {
-        // Upload file
+      if (uploadMode === 'file' && selectedFiles.length > 0) {
+        // Upload files, in order, each with its role
         const formData = new FormData();
-        formData.append('file', selectedFile);
+        for (const { file, role } of selectedFiles) {
+          formData.append('files', file);
+          formData.append('roles', role);
+        }
 
         const response = await fetch('/api/upload', {
           method: 'POST',
@@ -89,7 +128,7 @@ export default function UploadStep() {
         }
 
         const data = await response.json();
-        setSOWContent(data.content, data.filename);
+        setDocuments(data.documents);
       } else if (uploadMode === 'text' && pastedText.trim()) {
         // Submit pasted text
         const response = await fetch('/api/upload', {
@@ -106,7 +145,7 @@ export default function UploadStep() {
         }
 
         const data = await response.json();
-        setSOWContent(data.content, 'Pasted Text');
+        setDocuments(data.documents);
       } else {
         setError('Please select a file or paste text to continue');
       }
@@ -117,7 +156,7 @@ export default function UploadStep() {
     }
   };
 
-  const canSubmit = uploadMode === 'file' ? selectedFile !== null : pastedText.trim().length > 0;
+  const canSubmit = uploadMode === 'file' ? selectedFiles.length > 0 : pastedText.trim().length > 0;
 
   return (
     <div className="w-full max-w-2xl mx-auto p-6 space-y-6">
@@ -166,6 +205,14 @@ export default function UploadStep() {
           >
             Vague Requirements
           </a>
+          <span className="text-gray-300">|</span>
+          <a
+            href="/examples/salon-platform-with-exclusions.txt"
+            download
+            className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+          >
+            Nested Exclusions
+          </a>
         </div>
       </div>
 
@@ -223,27 +270,34 @@ export default function UploadStep() {
             <div className="mt-4">
               <label htmlFor="file-upload" className="cursor-pointer">
                 <span className="text-blue-600 hover:text-blue-500 font-medium">
-                  Choose a file
+                  Choose files
                 </span>
                 <input
                   id="file-upload"
                   name="file-upload"
                   type="file"
+                  multiple
                   className="sr-only"
-                  accept=".pdf,.txt,.md"
+                  accept={ACCEPTED_FILE_TYPES.join(',')}
                   onChange={handleFileInput}
                 />
               </label>
               <p className="text-gray-500"> or drag and drop</p>
             </div>
             <p className="text-xs text-gray-500 mt-2">
-              PDF, TXT, or MD up to 10MB
+              PDF, DOCX, ODT, RTF, TXT, or MD up to 10MB each
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Add addenda, change orders and appendices alongside the master SOW, oldest first
             </p>
           </div>
 
-          {/* Selected File Display */}
-          {selectedFile && (
-            <div className="flex items-center gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+          {/* Selected Files Display */}
+          {selectedFiles.map(({ file, role }, idx) => (
+            <div
+              key={`${file.name}-${idx}`}
+              className="flex items-center gap-3 p-4 bg-green-50 border border-green-200 rounded-lg"
+            >
               <svg
                 className="h-6 w-6 text-green-600"
                 fill="none"
@@ -258,13 +312,25 @@ export default function UploadStep() {
                 />
               </svg>
               <div className="flex-1">
-                <p className="font-medium text-green-900">{selectedFile.name}</p>
+                <p className="font-medium text-green-900">{file.name}</p>
                 <p className="text-sm text-green-700">
-                  {(selectedFile.size / 1024).toFixed(1)} KB
+                  {(file.size / 1024).toFixed(1)} KB
                 </p>
               </div>
+              <select
+                value={role}
+                onChange={(e) => setFileRole(idx, e.target.value as DocumentRole)}
+                className="text-sm px-2 py-1 border border-green-300 rounded bg-white text-gray-900"
+                aria-label={`Role of ${file.name}`}
+              >
+                {DOCUMENT_ROLES.map((option) => (
+                  <option key={option} value={option}>
+                    {DOCUMENT_ROLE_LABELS[option]}
+                  </option>
+                ))}
+              </select>
               <button
-                onClick={() => setSelectedFile(null)}
+                onClick={() => removeFile(idx)}
                 className="text-green-600 hover:text-green-800"
               >
                 <svg
@@ -282,7 +348,7 @@ export default function UploadStep() {
                 </svg>
               </button>
             </div>
-          )}
+          ))}
         </div>
       ) : (
         <div className="space-y-4">
@@ -307,6 +373,24 @@ export default function UploadStep() {
         </div>
       )}
 
+      {/* Redaction Terms */}
+      <div>
+        <label htmlFor="redaction-terms" className="block text-sm font-medium text-gray-700 mb-2">
+          Confidential terms to redact (optional)
+        </label>
+        <input
+          id="redaction-terms"
+          type="text"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Comma-separated, e.g. Project Falcon, Acme Internal"
+          value={redactionInput}
+          onChange={(e) => setRedactionInput(e.target.value)}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Emails, phone numbers, amounts, account numbers, organizations and people are redacted automatically before analysis
+        </p>
+      </div>
+
       {/* Error Display */}
       {error && (
         <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
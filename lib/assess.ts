@@ -0,0 +1,113 @@
+import { RepoResult, SOWAnalysis } from './types';
+import { formatContextForPrompt, ResolvedAnswer } from './context';
+import { completeJSON } from './llm';
+import { CoverageReplySchema } from './schemas';
+import { completeMatrix, coverageScore, matrixLevels } from './coverage';
+
+// Repository details the coverage judgement is based on
+type CoverageSubject = Pick<RepoResult, 'fullName' | 'description' | 'language' | 'stars'>;
+
+// Reply tokens: the JSON wrapper, plus one id, level and sentence per deliverable
+const BASE_TOKENS = 256;
+const TOKENS_PER_DELIVERABLE = 80;
+
+// Coverage fields of a RepoResult
+export type CoverageResult = Pick<
+  RepoResult,
+  'status' | 'analysisError' | 'coveragePercentage' | 'coverage' | 'covers' | 'gaps'
+>;
+
+/**
+ * Whether an analyzed repo covers anything from the SOW. Unanalyzed repos
+ * are never relevant; they are reported separately so they can be retried.
+ */
+export function isRelevant(repo: CoverageResult): boolean {
+  return repo.status === 'analyzed' && repo.covers.length > 0;
+}
+
+/**
+ * Judge the repo against each deliverable. The percentage is computed from
+ * the judgements and the deliverables' priorities, not estimated by the model.
+ */
+export async function analyzeCoverage(
+  repo: CoverageSubject,
+  analysis: SOWAnalysis,
+  answers: ResolvedAnswer[],
+  additionalContext: string
+): Promise<CoverageResult> {
+  try {
+    const context = formatContextForPrompt(answers, additionalContext);
+
+    const prompt = `Analyze how well this GitHub repository matches the following project requirements.
+
+Repository:
+- Name: ${repo.fullName}
+- Description: ${repo.description || 'No description'}
+- Language: ${repo.language || 'Unknown'}
+- Stars: ${repo.stars}
+
+Project Requirements:
+- Type: ${analysis.projectType}
+- Deliverables:
+${analysis.deliverables.map(item => `  ${item.id}: ${item.text}`).join('\n')}
+- Technical Requirements: ${analysis.technicalRequirements.map(item => item.text).join(', ')}
+- Integrations: ${analysis.integrations.map(item => item.text).join(', ')}
+${context ? `\nClient Context:\n${context}\n` : ''}
+Judge EVERY deliverable and provide your analysis in the following JSON format:
+{
+  "deliverables": [
+    { "id": "D1", "coverage": "full", "justification": "Ships a booking calendar with per-location availability" },
+    { "id": "D2", "coverage": "partial", "justification": "Sends email reminders, SMS would need to be added" },
+    { "id": "D3", "coverage": "none", "justification": "No admin reporting" }
+  ]
+}
+
+Guidelines:
+- coverage "full": the repo delivers it as is or with configuration only
+- coverage "partial": the repo provides a usable base, but it needs real development work
+- coverage "none": the repo does not help with it, or there is no evidence that it does
+- justification: one short sentence, based on what the repository information shows
+- Apply the client context when given: a repo that conflicts with it (e.g. cloud-only when the client wants self-hosted, or ignoring a system the client already uses) covers less
+
+Be concise and specific. Return ONLY valid JSON, no additional text.`;
+
+    // Every deliverable must be judged; omissions are sent back for repair
+    const ids = analysis.deliverables.map(item => item.id);
+    const schema = CoverageReplySchema.superRefine((reply, ctx) => {
+      const missing = ids.filter(id => !reply.deliverables.some(entry => entry.id === id));
+      if (missing.length > 0) {
+        ctx.addIssue({ code: 'custom', path: ['deliverables'], message: `No judgement for ${missing.join(', ')}` });
+      }
+    });
+
+    // A fixed budget cut the reply short for long SOWs, failing every repo
+    const maxTokens = Math.max(1024, BASE_TOKENS + TOKENS_PER_DELIVERABLE * ids.length);
+    const reply = await completeJSON('coverage', prompt, schema, { maxTokens });
+
+    const coverage = completeMatrix(
+      reply.deliverables.map(entry => ({ deliverableId: entry.id, level: entry.coverage, justification: entry.justification })),
+      analysis.deliverables
+    );
+
+    return {
+      status: 'analyzed',
+      analysisError: null,
+      coveragePercentage: coverageScore(matrixLevels(coverage), analysis.deliverables),
+      coverage,
+      covers: coverage.filter(entry => entry.level !== 'none').map(entry => entry.deliverableId),
+      gaps: coverage.filter(entry => entry.level !== 'full').map(entry => entry.deliverableId),
+    };
+
+  } catch (error) {
+    console.error(`Coverage analysis error for ${repo.fullName}:`, error);
+    // Report the failure instead of inventing a coverage estimate
+    return {
+      status: 'unanalyzed',
+      analysisError: error instanceof Error ? error.message : 'Coverage analysis failed',
+      coveragePercentage: 0,
+      coverage: [],
+      covers: [],
+      gaps: [],
+    };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Okapi BM25 over small in-memory corpora, used to rank search candidates
+ * without an external service
+ */
+
+// Words too common to say anything about a repository
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'your', 'you', 'are', 'was', 'were', 'will',
+  'can', 'has', 'have', 'had', 'not', 'but', 'all', 'any', 'our', 'their', 'its', 'use', 'using', 'used',
+  'via', 'per', 'each', 'other', 'such', 'also', 'more', 'must', 'should', 'shall', 'may', 'able', 'based',
+  'support', 'supports', 'provide', 'provides', 'including', 'include', 'includes', 'new', 'etc',
+]);
+
+/**
+ * Lowercase terms of a text: camelCase, kebab-case and snake_case are split,
+ * stopwords and very short words dropped, and a plural "s" removed
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter(term => term.length >= 3 && !STOPWORDS.has(term))
+    .map(term => (term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term));
+}
+
+/**
+ * BM25 score of each document for the query. Documents are lists of terms;
+ * a term repeated in the query counts that many times (at most 3).
+ */
+export function bm25Scores(
+  documents: string[][],
+  query: string[],
+  { k1 = 1.2, b = 0.75 }: { k1?: number; b?: number } = {}
+): number[] {
+  if (documents.length === 0) return [];
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const frequencies = documents.map(doc => {
+    const counts = new Map<string, number>();
+    doc.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+    return counts;
+  });
+
+  const queryCounts = new Map<string, number>();
+  query.forEach(term => queryCounts.set(term, Math.min(3, (queryCounts.get(term) ?? 0) + 1)));
+
+  const idf = new Map<string, number>();
+  for (const term of queryCounts.keys()) {
+    const containing = frequencies.filter(counts => counts.has(term)).length;
+    idf.set(term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5)));
+  }
+
+  return frequencies.map((counts, idx) => {
+    const lengthNorm = k1 * (1 - b + (b * documents[idx].length) / averageLength);
+    let score = 0;
+
+    for (const [term, queryCount] of queryCounts) {
+      const tf = counts.get(term);
+      if (!tf) continue;
+      score += queryCount * (idf.get(term) ?? 0) * ((tf * (k1 + 1)) / (tf + lengthNorm));
+    }
+
+    return score;
+  });
+}
@@ -0,0 +1,123 @@
+import { Requirement, SOWDocument, SOWSection } from './types';
+import { formatDocumentsForPrompt, orderDocuments } from './documents';
+import { significantWords } from './sections';
+
+// Prompt budget per chunk in characters (~6k tokens). Small enough that the
+// requirements extracted from one chunk fit well within the output limit.
+export const MAX_CHUNK_CHARS = 24000;
+
+/**
+ * Split an oversized section into pieces that fit the budget, cutting at
+ * paragraph breaks where possible, then line breaks, then spaces. Pieces
+ * are verbatim slices of the section so citations can still be located.
+ */
+function splitSection(section: SOWSection, maxChars: number): SOWSection[] {
+  const pieces: SOWSection[] = [];
+  let remaining = section.content;
+  let consumed = 0;
+
+  while (remaining.length > maxChars) {
+    const window = remaining.slice(0, maxChars);
+    const minimum = maxChars / 2;
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < minimum) cut = window.lastIndexOf('\n');
+    if (cut < minimum) cut = window.lastIndexOf(' ');
+    if (cut < minimum) cut = maxChars;
+
+    pieces.push({ ...section, content: remaining.slice(0, cut).trim(), start: section.start + consumed });
+    remaining = remaining.slice(cut);
+    consumed += cut;
+  }
+
+  pieces.push({ ...section, content: remaining.trim(), start: section.start + consumed });
+  return pieces.filter(piece => piece.content.length > 0);
+}
+
+/**
+ * Split a project into chunks that each fit the prompt budget. Each chunk is
+ * a list of documents carrying only part of their outline; sections are kept
+ * whole unless a single section exceeds the budget. A project that fits the
+ * budget comes back as a single chunk.
+ */
+export function chunkDocuments(documents: SOWDocument[], maxChars = MAX_CHUNK_CHARS): SOWDocument[][] {
+  if (formatDocumentsForPrompt(documents).length <= maxChars) {
+    return [documents];
+  }
+
+  const chunks: SOWDocument[][] = [];
+  let current: SOWDocument[] = [];
+  let size = 0;
+
+  for (const doc of orderDocuments(documents)) {
+    const sections = doc.outline
+      .filter(section => section.type !== 'pricing')
+      .flatMap(section => splitSection(section, maxChars));
+
+    for (const section of sections) {
+      if (size > 0 && size + section.content.length > maxChars) {
+        chunks.push(current);
+        current = [];
+        size = 0;
+      }
+
+      const last = current[current.length - 1];
+      if (last?.id === doc.id) {
+        last.outline.push(section);
+      } else {
+        current.push({ ...doc, outline: [section] });
+      }
+      size += section.content.length;
+    }
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function isSameRequirement(a: Requirement, b: Requirement): boolean {
+  if (a.text.trim().toLowerCase() === b.text.trim().toLowerCase()) return true;
+
+  const wordsA = new Set(significantWords(a.text));
+  const wordsB = new Set(significantWords(b.text));
+  // Too few words to compare fuzzily
+  if (wordsA.size < 2 || wordsB.size < 2) return false;
+
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / Math.max(wordsA.size, wordsB.size) >= 0.8;
+}
+
+/**
+ * Merge requirement lists extracted from separate chunks, dropping items
+ * that restate another. As in a single-pass analysis, the later document
+ * wins: a change order's "5 locations" replaces the master SOW's "3
+ * locations", keeping its place in the list. Duplicates from the same
+ * document keep the first occurrence, which takes over a later duplicate's
+ * citation when only the later one could be verified.
+ */
+export function mergeRequirements(lists: Requirement[][], documents: SOWDocument[]): Requirement[] {
+  const positions = new Map(orderDocuments(documents).map((doc, idx) => [doc.id, idx]));
+  const position = (requirement: Requirement) =>
+    requirement.sourceDocument ? positions.get(requirement.sourceDocument) ?? -1 : -1;
+  const merged: Requirement[] = [];
+
+  for (const requirement of lists.flat()) {
+    const idx = merged.findIndex(existing => isSameRequirement(existing, requirement));
+
+    if (idx === -1) {
+      merged.push(requirement);
+    } else if (position(requirement) > position(merged[idx])) {
+      merged[idx] = requirement;
+    } else if (position(requirement) === position(merged[idx]) && !merged[idx].citation?.verified && requirement.citation?.verified) {
+      merged[idx] = {
+        ...merged[idx],
+        sourceDocument: requirement.sourceDocument,
+        citation: requirement.citation,
+      };
+    }
+  }
+
+  return merged;
+}
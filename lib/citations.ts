@@ -0,0 +1,135 @@
+import { Citation, SOWDocument } from './types';
+
+// Typographic characters the model tends to "fix" when quoting. Quote marks
+// are dropped entirely, since the model also adds or removes them.
+const CHARACTER_EQUIVALENTS: Record<string, string> = {
+  '‘': '',
+  '’': '',
+  '“': '',
+  '”': '',
+  "'": '',
+  '"': '',
+  '–': '-',
+  '—': '-',
+  '•': '-',
+};
+
+const PAGE_MARKER = /\[Page \d+\]/g;
+
+/**
+ * Page number (1-based) containing the given character offset
+ */
+export function pageAt(pageStarts: number[], offset: number): number {
+  let page = 1;
+  pageStarts.forEach((start, idx) => {
+    if (start <= offset) page = idx + 1;
+  });
+  return page;
+}
+
+/**
+ * Insert "[Page N]" markers into a slice of a paginated document, so the
+ * model can tell which page each passage is on.
+ */
+export function annotatePages(text: string, offset: number, pageStarts: number[] | null): string {
+  if (!pageStarts) return text;
+
+  const breaks = pageStarts
+    .map((start, idx) => ({ start: start - offset, page: idx + 1 }))
+    .filter(({ start }) => start > 0 && start < text.length)
+    // Empty pages share a start offset with the next page; keep the last one
+    .filter(({ start }, idx, all) => all[idx + 1]?.start !== start);
+
+  let annotated = '';
+  let cursor = 0;
+  for (const { start, page } of breaks) {
+    annotated += `${text.slice(cursor, start)}[Page ${page}]\n`;
+    cursor = start;
+  }
+  annotated += text.slice(cursor);
+
+  return `[Page ${pageAt(pageStarts, offset)}]\n${annotated}`;
+}
+
+function normalizeWithPositions(text: string): { normalized: string; positions: number[] } {
+  let normalized = '';
+  const positions: number[] = [];
+  let previousWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      if (previousWasSpace) continue;
+      normalized += ' ';
+      previousWasSpace = true;
+    } else {
+      const equivalent = CHARACTER_EQUIVALENTS[char] ?? char.toLowerCase();
+      if (!equivalent) continue;
+      normalized += equivalent;
+      previousWasSpace = false;
+    }
+    positions.push(i);
+  }
+
+  return { normalized, positions };
+}
+
+/**
+ * Locate a quote in a document, ignoring case, whitespace and typographic
+ * quote/dash differences. Returns the character offset or -1.
+ */
+export function findQuote(content: string, quote: string): number {
+  const needle = normalizeWithPositions(
+    quote
+      .replace(PAGE_MARKER, ' ')
+      .trim()
+      .replace(/(\.\.\.|…)$/, '')
+  ).normalized.trim();
+
+  if (needle.length === 0) return -1;
+
+  const { normalized, positions } = normalizeWithPositions(content);
+  const index = normalized.indexOf(needle);
+  return index === -1 ? -1 : positions[index];
+}
+
+/**
+ * Build a citation from the model's claimed source, page and quote. The quote
+ * is searched for in the claimed document first and then in the others; when
+ * found, the page is derived from its offset rather than trusted from the model.
+ */
+export function resolveCitation(
+  claimed: { source: string | null; page?: unknown; quote?: unknown },
+  documents: SOWDocument[]
+): Citation | null {
+  const quote = typeof claimed.quote === 'string' ? claimed.quote.trim() : '';
+  if (!quote) return null;
+
+  const candidates = [
+    ...documents.filter(doc => doc.id === claimed.source),
+    ...documents.filter(doc => doc.id !== claimed.source),
+  ];
+
+  for (const doc of candidates) {
+    const offset = findQuote(doc.content, quote);
+    if (offset !== -1) {
+      return {
+        documentId: doc.id,
+        page: doc.pageStarts ? pageAt(doc.pageStarts, offset) : null,
+        quote,
+        verified: true,
+      };
+    }
+  }
+
+  // Not found verbatim - keep the model's claim, marked as unverified
+  const source = documents.find(doc => doc.id === claimed.source);
+  if (!source) return null;
+
+  const page = typeof claimed.page === 'number' && source.pageStarts
+    && claimed.page >= 1 && claimed.page <= source.pageStarts.length
+    ? claimed.page
+    : null;
+
+  return { documentId: source.id, page, quote, verified: false };
+}
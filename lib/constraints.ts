@@ -0,0 +1,255 @@
+import { ConstraintRule, ConstraintViolation, RepoSummary, SearchConstraints } from './types';
+
+/**
+ * Hard constraints on candidate repositories. They are applied twice: as
+ * qualifiers on every GitHub query, so the search spends its results on
+ * eligible repos, and again on every fetched repo, since some rules (several
+ * allowed licenses, a language GitHub did not detect) cannot be expressed
+ * exactly in a query.
+ */
+
+export const DEFAULT_CONSTRAINTS: SearchConstraints = {
+  requiredLanguages: [],
+  forbiddenLanguages: [],
+  allowedLicenses: [],
+  minStars: 0,
+  maxMonthsSincePush: null,
+  excludeArchived: true,
+  excludeForks: true,
+  excludeTemplates: false,
+  allowList: [],
+  blockList: [],
+};
+
+export const CONSTRAINT_RULE_LABELS: Record<ConstraintRule, string> = {
+  requiredLanguage: 'Required language',
+  forbiddenLanguage: 'Forbidden language',
+  license: 'Allowed licenses',
+  minStars: 'Minimum stars',
+  maxAge: 'Last push',
+  archived: 'Archived',
+  fork: 'Fork',
+  template: 'Template',
+  allowList: 'Allow list',
+  blockList: 'Block list',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Owners and repos blocked for the deployment (SEARCH_BLOCKLIST,
+ * comma-separated), on top of the project's own block list
+ */
+export function configuredBlockList(): string[] {
+  return (process.env.SEARCH_BLOCKLIST || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Constraints from a request body; missing or malformed fields fall back to
+ * the defaults
+ */
+export function parseConstraints(value: unknown): SearchConstraints {
+  if (!value || typeof value !== 'object') return DEFAULT_CONSTRAINTS;
+  const input = value as Partial<Record<keyof SearchConstraints, unknown>>;
+  const flag = (key: 'excludeArchived' | 'excludeForks' | 'excludeTemplates') =>
+    typeof input[key] === 'boolean' ? input[key] : DEFAULT_CONSTRAINTS[key];
+
+  return {
+    requiredLanguages: stringList(input.requiredLanguages),
+    forbiddenLanguages: stringList(input.forbiddenLanguages),
+    allowedLicenses: stringList(input.allowedLicenses),
+    minStars: typeof input.minStars === 'number' && input.minStars > 0 ? Math.floor(input.minStars) : 0,
+    maxMonthsSincePush: typeof input.maxMonthsSincePush === 'number' && input.maxMonthsSincePush > 0
+      ? input.maxMonthsSincePush
+      : null,
+    excludeArchived: flag('excludeArchived'),
+    excludeForks: flag('excludeForks'),
+    excludeTemplates: flag('excludeTemplates'),
+    allowList: stringList(input.allowList),
+    blockList: stringList(input.blockList),
+  };
+}
+
+// GitHub search limit
+const MAX_QUERY_LENGTH = 256;
+
+/**
+ * Tokens joined into a query within GitHub's length limit. Required tokens
+ * are always kept, and so is the first optional one, so there is something to
+ * search for; the other optional tokens are added in order while they fit. A
+ * long query loses whole keywords instead of the end of a qualifier.
+ */
+export function fitQuery(optional: string[], required: string[] = []): string {
+  let length = [...optional.slice(0, 1), ...required].join(' ').length;
+  const kept = optional.slice(0, 1);
+  for (const token of optional.slice(1)) {
+    if (length + token.length + 1 > MAX_QUERY_LENGTH) continue;
+    kept.push(token);
+    length += token.length + 1;
+  }
+  return [...kept, ...required].join(' ');
+}
+
+// "acme" matches every repo of the owner, "acme/widget" one repo
+function listMatches(entry: string, repo: Pick<RepoSummary, 'owner' | 'fullName'>): boolean {
+  const target = entry.includes('/') ? repo.fullName : repo.owner;
+  return target.toLowerCase() === entry.toLowerCase();
+}
+
+function listQualifier(entry: string): string {
+  return entry.includes('/') ? `repo:${entry}` : `user:${entry}`;
+}
+
+// Language names GitHub search spells differently
+const LANGUAGE_ALIASES: Record<string, string> = { 'c#': 'csharp', 'c++': 'cpp', 'f#': 'fsharp' };
+
+// GitHub language names in qualifier form, e.g. "Jupyter Notebook" -> jupyter-notebook
+function languageQualifier(language: string): string {
+  const name = language.toLowerCase().replace(/\s+/g, '-');
+  return LANGUAGE_ALIASES[name] ?? name;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Earliest allowed push date, as YYYY-MM-DD
+function pushCutoff(months: number, now: number): string {
+  const cutoff = new Date(now);
+  cutoff.setMonth(cutoff.getMonth() - months);
+  return cutoff.toISOString().slice(0, 10);
+}
+
+/**
+ * Rewrite a sanitized query so it only returns repos that can meet the
+ * constraints. Qualifiers the constraints decide (archived, fork, template,
+ * and stars, pushed, language or license when set) replace the planner's.
+ */
+export function constrainQuery(query: string, constraints: SearchConstraints, now = Date.now()): string {
+  const replaced = new Set(['archived', 'fork', 'template']);
+  if (constraints.minStars > 0) replaced.add('stars');
+  if (constraints.maxMonthsSincePush !== null) replaced.add('pushed');
+  if (constraints.requiredLanguages.length > 0) replaced.add('language');
+  if (constraints.allowedLicenses.length > 0) replaced.add('license');
+
+  const planned = (query.match(/"[^"]*"|\S+/g) || []).filter(token => {
+    const qualifier = token.match(/^([a-z]+):(.+)$/i);
+    if (!qualifier) return true;
+
+    const [, key, value] = qualifier;
+    if (replaced.has(key.toLowerCase())) return false;
+    // A planned language the client has ruled out
+    return !(key.toLowerCase() === 'language'
+      && constraints.forbiddenLanguages.some(language => languageQualifier(language) === value.toLowerCase()));
+  });
+
+  // The planner's tokens give way when the constraints need the room
+  const tokens: string[] = [];
+  if (constraints.excludeArchived) tokens.push('archived:false');
+  if (constraints.excludeForks) tokens.push('fork:false');
+  if (constraints.excludeTemplates) tokens.push('template:false');
+  if (constraints.minStars > 0) tokens.push(`stars:>=${constraints.minStars}`);
+  if (constraints.maxMonthsSincePush !== null) tokens.push(`pushed:>=${pushCutoff(constraints.maxMonthsSincePush, now)}`);
+
+  // Repeated language and user/repo qualifiers match any of their values
+  tokens.push(...constraints.requiredLanguages.map(language => `language:${languageQualifier(language)}`));
+  tokens.push(...constraints.forbiddenLanguages.map(language => `-language:${languageQualifier(language)}`));
+  tokens.push(...constraints.allowList.map(listQualifier));
+  tokens.push(...constraints.blockList.map(entry => `-${listQualifier(entry)}`));
+
+  // Several licenses cannot be combined in one query; they are checked after
+  // fetching instead
+  if (constraints.allowedLicenses.length === 1) tokens.push(`license:${constraints.allowedLicenses[0].toLowerCase()}`);
+
+  return fitQuery(planned, tokens);
+}
+
+/**
+ * Every constraint a repo breaks; empty when it may be recommended
+ */
+export function checkConstraints(
+  repo: RepoSummary,
+  constraints: SearchConstraints,
+  now = Date.now()
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const { requiredLanguages, forbiddenLanguages, allowedLicenses } = constraints;
+
+  if (requiredLanguages.length > 0 && !requiredLanguages.some(language => repo.language && sameName(language, repo.language))) {
+    violations.push({
+      rule: 'requiredLanguage',
+      detail: `${repo.language || 'No detected language'}; required: ${requiredLanguages.join(', ')}`,
+    });
+  }
+
+  const forbidden = forbiddenLanguages.find(language => repo.language && sameName(language, repo.language));
+  if (forbidden) {
+    violations.push({ rule: 'forbiddenLanguage', detail: `${repo.language} is ruled out` });
+  }
+
+  if (allowedLicenses.length > 0 && !allowedLicenses.some(license => repo.license && sameName(license, repo.license))) {
+    violations.push({
+      rule: 'license',
+      detail: `${repo.license || 'No license'}; allowed: ${allowedLicenses.join(', ')}`,
+    });
+  }
+
+  if (repo.stars < constraints.minStars) {
+    violations.push({ rule: 'minStars', detail: `${repo.stars.toLocaleString()} stars, fewer than ${constraints.minStars.toLocaleString()}` });
+  }
+
+  if (constraints.maxMonthsSincePush !== null) {
+    const cutoff = pushCutoff(constraints.maxMonthsSincePush, now);
+    const pushed = repo.pushedAt ? new Date(repo.pushedAt).getTime() : NaN;
+    if (!Number.isFinite(pushed) || pushed < new Date(cutoff).getTime()) {
+      const days = Math.round((now - pushed) / DAY_MS);
+      violations.push({
+        rule: 'maxAge',
+        detail: Number.isFinite(pushed)
+          ? `Last push ${days} days ago, more than ${constraints.maxMonthsSincePush} months`
+          : 'No push date',
+      });
+    }
+  }
+
+  if (constraints.excludeArchived && repo.archived) violations.push({ rule: 'archived', detail: 'Archived' });
+  if (constraints.excludeForks && repo.isFork) violations.push({ rule: 'fork', detail: 'Fork of another repository' });
+  if (constraints.excludeTemplates && repo.isTemplate) violations.push({ rule: 'template', detail: 'Template repository' });
+
+  if (constraints.allowList.length > 0 && !constraints.allowList.some(entry => listMatches(entry, repo))) {
+    violations.push({ rule: 'allowList', detail: `${repo.owner} is not on the allow list` });
+  }
+
+  const blocked = constraints.blockList.find(entry => listMatches(entry, repo));
+  if (blocked) violations.push({ rule: 'blockList', detail: `${blocked} is on the block list` });
+
+  return violations;
+}
+
+/**
+ * Short descriptions of the constraints that differ from the defaults
+ */
+export function describeConstraints(constraints: SearchConstraints): string[] {
+  const lines: string[] = [];
+
+  if (constraints.requiredLanguages.length > 0) lines.push(`Language: ${constraints.requiredLanguages.join(' or ')}`);
+  if (constraints.forbiddenLanguages.length > 0) lines.push(`No ${constraints.forbiddenLanguages.join(', ')}`);
+  if (constraints.allowedLicenses.length > 0) lines.push(`License: ${constraints.allowedLicenses.join(', ')}`);
+  if (constraints.minStars > 0) lines.push(`${constraints.minStars.toLocaleString()}+ stars`);
+  if (constraints.maxMonthsSincePush !== null) lines.push(`Pushed in the last ${constraints.maxMonthsSincePush} months`);
+  if (!constraints.excludeArchived) lines.push('Archived allowed');
+  if (!constraints.excludeForks) lines.push('Forks allowed');
+  if (constraints.excludeTemplates) lines.push('No templates');
+  if (constraints.allowList.length > 0) lines.push(`Only ${constraints.allowList.join(', ')}`);
+  if (constraints.blockList.length > 0) lines.push(`Never ${constraints.blockList.join(', ')}`);
+
+  return lines;
+}
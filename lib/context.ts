@@ -0,0 +1,113 @@
+import { Question, Redaction } from './types';
+import { createRedactor, stripPlaceholders } from './redaction';
+
+/**
+ * User-supplied search context: answers to the clarifying questions and the
+ * optional free-text context from the analysis step.
+ */
+
+// A question answer with the question text it belongs to
+export interface ResolvedAnswer {
+  questionId: string;
+  question: string;
+  answer: string;
+}
+
+// Answers that express no preference and must not narrow the search
+const NON_COMMITTAL_ANSWER = /^(no preference|not sure|unsure|unknown|either|any|both|none|other|n\/a|don'?t know|doesn'?t matter|no opinion)\b/i;
+
+/**
+ * Pair each answer with the text of its question, in question order. Answers
+ * to unknown question IDs are dropped.
+ */
+export function resolveAnswers(questions: Question[], answers: Record<string, string> | null | undefined): ResolvedAnswer[] {
+  if (!answers) return [];
+
+  return questions
+    .filter(question => typeof answers[question.id] === 'string' && answers[question.id].trim())
+    .map(question => ({
+      questionId: question.id,
+      question: question.question,
+      answer: answers[question.id].trim(),
+    }));
+}
+
+/**
+ * Redact answers and free-text context like the SOW before they reach a
+ * prompt. Placeholders the SOW's values already have are reused, so [ORG_1]
+ * stays the same client; `redactions` lists only the new ones.
+ */
+export function redactContext(
+  answers: ResolvedAnswer[],
+  additionalContext: string | null | undefined,
+  { customTerms, known }: { customTerms: string[]; known: Redaction[] }
+): { answers: ResolvedAnswer[]; additionalContext: string; redactions: Redaction[] } {
+  const redactor = createRedactor(customTerms, known);
+  const redacted = {
+    answers: answers.map(answer => ({ ...answer, answer: redactor.redact(answer.answer).text })),
+    additionalContext: redactor.redact(additionalContext || '').text,
+  };
+
+  const placeholders = new Set(known.map(redaction => redaction.placeholder));
+  return { ...redacted, redactions: redactor.redactions().filter(redaction => !placeholders.has(redaction.placeholder)) };
+}
+
+/**
+ * Render answers and free-text context for an LLM prompt, or an empty string
+ * when the user provided neither
+ */
+export function formatContextForPrompt(answers: ResolvedAnswer[], additionalContext?: string | null): string {
+  const lines = answers.map(({ question, answer }) => `- ${question} -> ${answer}`);
+  const context = additionalContext?.trim();
+
+  if (lines.length === 0 && !context) return '';
+
+  return [
+    lines.length > 0 ? `Answers to clarifying questions:\n${lines.join('\n')}` : '',
+    context ? `Additional context from the user:\n${context}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Product and technology names mentioned in free text: runs of capitalised
+ * words or acronyms that do not start a sentence, e.g. "Square POS"
+ */
+function mentionedNames(text: string): string[] {
+  const names: string[] = [];
+
+  for (const sentence of text.split(/[.!?\n]+/)) {
+    const words = sentence.trim().split(/\s+/).slice(1);
+    let run: string[] = [];
+
+    for (const word of [...words, '']) {
+      const clean = word.replace(/[^\w+#.-]/g, '');
+      if (/^[A-Z][\w+#.-]*$/.test(clean) && clean.length >= 2) {
+        run.push(clean);
+      } else {
+        if (run.length > 0 && run.join(' ').length >= 3) names.push(run.join(' '));
+        run = [];
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Search terms implied by the user's answers and free-text context. Answers
+ * that express no preference are skipped, as are long free-form answers that
+ * would over-narrow a GitHub search.
+ */
+export function contextSearchTerms(answers: ResolvedAnswer[], additionalContext?: string | null): string[] {
+  const answerTerms = answers
+    // "React / Vue" or "Twilio or Vonage": the first alternative is enough
+    .map(({ answer }) => answer.split(/\s*(?:\/|,|\bor\b)\s*/)[0])
+    .map(answer => stripPlaceholders(answer).replace(/[^\w\s+#.-]/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(answer => answer && !NON_COMMITTAL_ANSWER.test(answer) && answer.split(' ').length <= 3);
+
+  const contextTerms = mentionedNames(stripPlaceholders(additionalContext || ''));
+
+  return [...new Set([...answerTerms, ...contextTerms].map(term => term.toLowerCase()))];
+}
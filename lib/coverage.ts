@@ -0,0 +1,77 @@
+import { CoverageLevel, Deliverable, DeliverableCoverage, Priority, Requirement } from './types';
+
+/**
+ * Deliverable IDs and priorities, and the coverage matrix a repo is judged
+ * by. The coverage percentage is computed from the matrix, never taken from
+ * the model.
+ */
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  must: 'Must have',
+  should: 'Should have',
+  could: 'Could have',
+};
+
+// Weight of a deliverable in the coverage percentage
+export const PRIORITY_WEIGHTS: Record<Priority, number> = {
+  must: 3,
+  should: 2,
+  could: 1,
+};
+
+// Share of a deliverable's weight earned at each coverage level
+export const LEVEL_SCORES: Record<CoverageLevel, number> = {
+  full: 1,
+  partial: 0.5,
+  none: 0,
+};
+
+export const DEFAULT_PRIORITY: Priority = 'should';
+
+/**
+ * Number deliverables D1, D2, ... in list order. IDs are assigned once, when
+ * the analysis is created, and stay with the deliverable from then on.
+ */
+export function numberDeliverables(requirements: Requirement[]): Deliverable[] {
+  return requirements.map(({ priority, ...requirement }, idx) => ({
+    ...requirement,
+    id: `D${idx + 1}`,
+    priority: priority ?? DEFAULT_PRIORITY,
+  }));
+}
+
+/**
+ * Complete a matrix returned by the model: one entry per deliverable, in
+ * deliverable order, unknown IDs dropped and missing ones judged "none"
+ */
+export function completeMatrix(entries: DeliverableCoverage[], deliverables: Deliverable[]): DeliverableCoverage[] {
+  return deliverables.map(deliverable =>
+    entries.find(entry => entry.deliverableId === deliverable.id) ?? {
+      deliverableId: deliverable.id,
+      level: 'none',
+      justification: 'Not assessed',
+    }
+  );
+}
+
+/**
+ * Priority-weighted coverage: each deliverable contributes its priority
+ * weight times the score of its coverage level. Levels are looked up by
+ * deliverable ID, so any matrix over the same deliverables can be scored,
+ * including the best level per deliverable across several repos.
+ */
+export function coverageScore(levels: Map<string, CoverageLevel>, deliverables: Deliverable[]): number {
+  const total = deliverables.reduce((sum, deliverable) => sum + PRIORITY_WEIGHTS[deliverable.priority], 0);
+  if (total === 0) return 0;
+
+  const earned = deliverables.reduce(
+    (sum, deliverable) => sum + PRIORITY_WEIGHTS[deliverable.priority] * LEVEL_SCORES[levels.get(deliverable.id) ?? 'none'],
+    0
+  );
+
+  return Math.round((earned / total) * 100);
+}
+
+export function matrixLevels(matrix: DeliverableCoverage[]): Map<string, CoverageLevel> {
+  return new Map(matrix.map(entry => [entry.deliverableId, entry.level]));
+}
@@ -0,0 +1,313 @@
+import {
+  DependencyReport,
+  Ecosystem,
+  FrameworkVersion,
+  OutdatedDependency,
+  RuntimeName,
+  RuntimeVersion,
+} from './types';
+import { Dependency, Manifest } from './manifests';
+
+/**
+ * What a repository would bring into the project, from its manifests and the
+ * package registries: runtime versions past end of life, framework versions,
+ * and dependencies whose declared major version is behind the latest
+ * release. The risks are written as concrete statements so the fit analysis
+ * does not have to guess from README text.
+ */
+
+// Frameworks worth naming in a risk, by ecosystem and package name
+const FRAMEWORKS: Record<Ecosystem, Record<string, string>> = {
+  npm: {
+    react: 'React',
+    'react-native': 'React Native',
+    vue: 'Vue',
+    '@angular/core': 'Angular',
+    angular: 'AngularJS',
+    next: 'Next.js',
+    nuxt: 'Nuxt',
+    svelte: 'Svelte',
+    'ember-source': 'Ember',
+    jquery: 'jQuery',
+    express: 'Express',
+    '@nestjs/core': 'NestJS',
+    electron: 'Electron',
+  },
+  pypi: { django: 'Django', flask: 'Flask', fastapi: 'FastAPI' },
+  rubygems: { rails: 'Rails', sinatra: 'Sinatra' },
+  go: { 'github.com/gin-gonic/gin': 'Gin', 'github.com/labstack/echo/v4': 'Echo', 'github.com/gofiber/fiber/v2': 'Fiber' },
+  composer: { 'laravel/framework': 'Laravel', 'symfony/framework-bundle': 'Symfony', 'symfony/symfony': 'Symfony' },
+  nuget: { 'Microsoft.EntityFrameworkCore': 'Entity Framework Core' },
+};
+
+// End of support per runtime version, oldest first. Node.js is keyed by major
+// version, the others by major.minor.
+const RUNTIME_END_OF_LIFE: Partial<Record<RuntimeName, [string, string][]>> = {
+  'Node.js': [['12', '2022-04-30'], ['14', '2023-04-30'], ['16', '2023-09-11'], ['18', '2025-04-30'], ['20', '2026-04-30'], ['22', '2027-04-30'], ['24', '2028-04-30']],
+  Python: [['3.7', '2023-06-27'], ['3.8', '2024-10-07'], ['3.9', '2025-10-31'], ['3.10', '2026-10-31'], ['3.11', '2027-10-31'], ['3.12', '2028-10-31'], ['3.13', '2029-10-31']],
+  PHP: [['7.4', '2022-11-28'], ['8.0', '2023-11-26'], ['8.1', '2025-12-31'], ['8.2', '2026-12-31'], ['8.3', '2027-12-31'], ['8.4', '2028-12-31']],
+  Ruby: [['2.7', '2023-03-31'], ['3.0', '2024-04-23'], ['3.1', '2025-03-31'], ['3.2', '2026-03-31'], ['3.3', '2027-03-31'], ['3.4', '2028-03-31']],
+  Go: [['1.20', '2024-02-06'], ['1.21', '2024-08-13'], ['1.22', '2025-02-11'], ['1.23', '2025-08-12'], ['1.24', '2026-02-10'], ['1.25', '2026-08-11']],
+  '.NET': [['3.1', '2022-12-13'], ['5.0', '2022-05-10'], ['6.0', '2024-11-12'], ['7.0', '2024-05-14'], ['8.0', '2026-11-10'], ['9.0', '2026-11-10'], ['10.0', '2028-11-14']],
+};
+
+// Registry lookups per repository; frameworks are looked up first
+const MAX_LOOKUPS = 40;
+
+const REGISTRY_TIMEOUT_MS = 5000;
+
+// Outdated dependencies named in the risks
+const MAX_OUTDATED_RISKS = 3;
+
+// Major and minor of the first version number in a spec, e.g. "^15.6.2" -> [15, 6]
+function versionNumbers(spec: string): [number, number | null] | null {
+  const match = spec.match(/(\d+)(?:\.(\d+))?/);
+  return match ? [Number(match[1]), match[2] === undefined ? null : Number(match[2])] : null;
+}
+
+// Specs that only set a minimum allow every newer version
+function isMinimumOnly(spec: string): boolean {
+  return /^\s*>/.test(spec) && !/</.test(spec);
+}
+
+function isPrerelease(version: string): boolean {
+  return /-|alpha|beta|rc|preview|dev/i.test(version);
+}
+
+/**
+ * End-of-life date of the newest version a runtime spec allows, when that date
+ * has passed. Caret specs and bare majors ("^3.9", "14.x") allow the whole
+ * major version; minimum-only specs (">=14") never count as end of life.
+ */
+function runtimeEndOfLife(runtime: RuntimeName, spec: string, now: number): string | null {
+  const table = RUNTIME_END_OF_LIFE[runtime];
+  const numbers = versionNumbers(spec.replace(/^netcoreapp/, ''));
+  if (!table || !numbers || isMinimumOnly(spec)) return null;
+
+  const [major, minor] = numbers;
+  const keyed = table.map(([version, date]) => ({ numbers: versionNumbers(version) ?? [0, 0], date }));
+  const byMajorOnly = runtime === 'Node.js';
+  const wholeMajor = byMajorOnly || minor === null || /^\s*\^/.test(spec);
+
+  const allowed = keyed.filter(({ numbers: [entryMajor, entryMinor] }) =>
+    entryMajor === major && (wholeMajor || entryMinor === minor)
+  );
+
+  let date: string | null;
+  if (allowed.length > 0) {
+    date = allowed[allowed.length - 1].date;
+  } else {
+    // Older than the table is long out of support; newer is not listed yet
+    const [firstMajor, firstMinor] = keyed[0].numbers;
+    const older = major < firstMajor || (!byMajorOnly && major === firstMajor && (minor ?? 0) < (firstMinor ?? 0));
+    date = older ? keyed[0].date : null;
+  }
+
+  return date && new Date(date).getTime() <= now ? date : null;
+}
+
+async function fetchJson(url: string): Promise<Record<string, unknown> | null> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS),
+  });
+  return response.ok ? response.json() : null;
+}
+
+// Go module paths escape capital letters as "!" plus the lower-case letter
+function escapeGoModule(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `!${letter.toLowerCase()}`);
+}
+
+/**
+ * Latest stable version of a package in its registry; null when the package
+ * or the registry cannot be reached
+ */
+async function latestVersion(ecosystem: Ecosystem, name: string): Promise<string | null> {
+  try {
+    switch (ecosystem) {
+      case 'npm': {
+        const data = await fetchJson(`https://registry.npmjs.org/${name.replace('/', '%2F')}/latest`);
+        return typeof data?.version === 'string' ? data.version : null;
+      }
+      case 'pypi': {
+        const data = await fetchJson(`https://pypi.org/pypi/${encodeURIComponent(name)}/json`);
+        const version = (data?.info as { version?: unknown } | undefined)?.version;
+        return typeof version === 'string' ? version : null;
+      }
+      case 'rubygems': {
+        const data = await fetchJson(`https://rubygems.org/api/v1/versions/${encodeURIComponent(name)}/latest.json`);
+        return typeof data?.version === 'string' && data.version !== 'unknown' ? data.version : null;
+      }
+      case 'go': {
+        const data = await fetchJson(`https://proxy.golang.org/${escapeGoModule(name)}/@latest`);
+        return typeof data?.Version === 'string' ? data.Version : null;
+      }
+      case 'composer': {
+        const data = await fetchJson(`https://repo.packagist.org/p2/${name.toLowerCase()}.json`);
+        const releases = (data?.packages as Record<string, { version: string }[]> | undefined)?.[name.toLowerCase()] ?? [];
+        return releases.map(release => release.version).find(version => !isPrerelease(version)) ?? null;
+      }
+      case 'nuget': {
+        const data = await fetchJson(`https://api.nuget.org/v3-flatcontainer/${name.toLowerCase()}/index.json`);
+        const versions = Array.isArray(data?.versions) ? (data.versions as string[]) : [];
+        return versions.filter(version => !isPrerelease(version)).pop() ?? null;
+      }
+    }
+  } catch (error) {
+    console.error(`Registry lookup error for ${ecosystem} package ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Major versions between a declared spec and the latest release; null when
+ * the spec names no version or allows every newer one
+ */
+function majorsBehind(declared: string | null, latest: string): number | null {
+  if (!declared || isMinimumOnly(declared)) return null;
+  const from = versionNumbers(declared);
+  const to = versionNumbers(latest);
+  if (!from || !to) return null;
+  return Math.max(0, to[0] - from[0]);
+}
+
+function frameworkRisk(framework: FrameworkVersion): string | null {
+  if (!framework.latest || !framework.majorsBehind) return null;
+  const declared = versionNumbers(framework.declared ?? '')?.[0];
+  const latest = versionNumbers(framework.latest)?.[0];
+  return framework.majorsBehind >= 2
+    ? `${framework.framework} ${declared} (latest ${latest}), needs migration`
+    : `${framework.framework} ${declared} is one major version behind (latest ${latest})`;
+}
+
+function runtimeRisk(runtime: RuntimeVersion): string | null {
+  if (runtime.runtime === '.NET Framework') {
+    return `Targets .NET Framework (${runtime.version}), Windows only; moving to modern .NET is a migration`;
+  }
+  return runtime.endOfLife
+    ? `${runtime.runtime} ${runtime.version} is past end of life (since ${runtime.endOfLife}) in ${runtime.path}`
+    : null;
+}
+
+/**
+ * Names of the frameworks a repository's manifests declare, e.g. ["React", "Express"]
+ */
+export function declaredFrameworks(manifests: Manifest[]): string[] {
+  return [...new Set(manifests.flatMap(manifest =>
+    manifest.dependencies
+      .filter(dependency => !dependency.dev)
+      .flatMap(dependency => FRAMEWORKS[manifest.ecosystem][dependency.name] ?? [])
+  ))];
+}
+
+/**
+ * Analyze a repository's manifests, looking declared versions up in the
+ * package registries
+ */
+export async function analyzeDependencies(manifests: Manifest[], now = Date.now()): Promise<DependencyReport> {
+  const runtimes: RuntimeVersion[] = manifests.flatMap(manifest =>
+    manifest.runtimes.map(runtime => ({
+      runtime: runtime.name,
+      version: runtime.version,
+      path: manifest.path,
+      endOfLife: runtimeEndOfLife(runtime.name, runtime.version, now),
+    }))
+  );
+
+  // Each package once, at the first manifest that declares it
+  const seen = new Set<string>();
+  const declared: { manifest: Manifest; dependency: Dependency }[] = [];
+  for (const manifest of manifests) {
+    for (const dependency of manifest.dependencies) {
+      const key = `${manifest.ecosystem}:${dependency.name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      declared.push({ manifest, dependency });
+    }
+  }
+
+  const frameworkName = ({ manifest, dependency }: { manifest: Manifest; dependency: Dependency }) =>
+    FRAMEWORKS[manifest.ecosystem][dependency.name] ?? null;
+
+  // Runtime dependencies with a version, frameworks first
+  const lookups = declared
+    .filter(({ dependency }) => !dependency.dev && dependency.version && versionNumbers(dependency.version))
+    .sort((a, b) => Number(frameworkName(b) !== null) - Number(frameworkName(a) !== null))
+    .slice(0, MAX_LOOKUPS);
+
+  const latest = await Promise.all(
+    lookups.map(({ manifest, dependency }) => latestVersion(manifest.ecosystem, dependency.name))
+  );
+
+  const outdated: OutdatedDependency[] = [];
+  const frameworks: FrameworkVersion[] = [];
+  lookups.forEach((entry, idx) => {
+    const { manifest, dependency } = entry;
+    const behind = latest[idx] ? majorsBehind(dependency.version, latest[idx]) : null;
+    const framework = frameworkName(entry);
+
+    if (framework) {
+      frameworks.push({
+        framework,
+        name: dependency.name,
+        declared: dependency.version,
+        latest: latest[idx],
+        majorsBehind: behind,
+        path: manifest.path,
+      });
+    }
+    if (latest[idx] && dependency.version && behind) {
+      outdated.push({
+        name: dependency.name,
+        ecosystem: manifest.ecosystem,
+        declared: dependency.version,
+        latest: latest[idx],
+        majorsBehind: behind,
+      });
+    }
+  });
+  outdated.sort((a, b) => b.majorsBehind - a.majorsBehind || a.name.localeCompare(b.name));
+
+  const runtimeDependencies = declared.filter(({ dependency }) => !dependency.dev).length;
+
+  // Frameworks are named on their own; other outdated packages are summarised
+  const frameworkNames = new Set(frameworks.map(framework => framework.name));
+  const otherOutdated = outdated.filter(dependency => !frameworkNames.has(dependency.name));
+  const risks = [
+    ...runtimes.map(runtimeRisk),
+    ...frameworks.map(frameworkRisk),
+    otherOutdated.length > 0
+      ? `${outdated.length} of ${lookups.length} checked dependencies are major versions behind, e.g. ${otherOutdated
+        .slice(0, MAX_OUTDATED_RISKS)
+        .map(dependency => `${dependency.name} ${dependency.declared} (latest ${dependency.latest})`)
+        .join(', ')}`
+      : null,
+  ].filter((risk): risk is string => risk !== null);
+
+  return {
+    manifests: manifests.map(manifest => manifest.path),
+    runtimes,
+    frameworks,
+    dependencies: runtimeDependencies,
+    devDependencies: declared.length - runtimeDependencies,
+    checked: lookups.length,
+    outdated,
+    risks: [...new Set(risks)],
+  };
+}
+
+/**
+ * A dependency report as prompt lines
+ */
+export function formatDependencyReport(report: DependencyReport): string {
+  return [
+    `- Manifests: ${report.manifests.join(', ')}`,
+    `- ${report.dependencies} runtime and ${report.devDependencies} development dependencies`,
+    ...report.runtimes.map(runtime => `- ${runtime.runtime} ${runtime.version}${runtime.endOfLife ? ' (past end of life)' : ''}`),
+    ...report.frameworks.map(framework =>
+      `- ${framework.framework} ${framework.declared ?? 'unversioned'}${framework.latest ? `, latest ${framework.latest}` : ''}`
+    ),
+    ...report.risks.map(risk => `- Risk: ${risk}`),
+  ].join('\n');
+}
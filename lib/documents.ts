@@ -0,0 +1,122 @@
+import { DocumentRole, Priority, Requirement, SOWDocument } from './types';
+import { formatSectionsForPrompt, isOutOfScope } from './sections';
+import { annotatePages, resolveCitation } from './citations';
+import { PRIORITY_LABELS } from './coverage';
+
+// Human-readable labels for document roles
+export const DOCUMENT_ROLE_LABELS: Record<DocumentRole, string> = {
+  sow: 'Master SOW',
+  appendix: 'Technical Appendix',
+  addendum: 'Addendum',
+  changeOrder: 'Change Order',
+};
+
+export const DOCUMENT_ROLES = Object.keys(DOCUMENT_ROLE_LABELS) as DocumentRole[];
+
+export function isDocumentRole(value: unknown): value is DocumentRole {
+  return typeof value === 'string' && value in DOCUMENT_ROLE_LABELS;
+}
+
+/**
+ * Order documents for analysis: the master SOW first, then the remaining
+ * documents in upload order, which is taken to be chronological. Later
+ * documents take precedence over earlier ones.
+ */
+export function orderDocuments(documents: SOWDocument[]): SOWDocument[] {
+  return [
+    ...documents.filter(doc => doc.role === 'sow'),
+    ...documents.filter(doc => doc.role !== 'sow'),
+  ];
+}
+
+/**
+ * Render a document body, split into sections when headings were detected
+ * and annotated with page markers when the document is paginated. Only the
+ * sections in the document's outline are rendered, so a document can be
+ * passed with part of its outline when it is analyzed in chunks.
+ */
+function formatDocumentBody(doc: SOWDocument): string {
+  const sections = doc.pageStarts
+    ? doc.outline.map(section => {
+        const offset = doc.content.indexOf(section.content, section.start);
+        return {
+          ...section,
+          content: annotatePages(section.content, offset === -1 ? section.start : offset, doc.pageStarts),
+        };
+      })
+    : doc.outline;
+
+  const isStructured = doc.outline.some(section => section.heading !== null || section.type !== 'other');
+  return isStructured
+    ? formatSectionsForPrompt(sections)
+    : sections.map(section => section.content).join('\n\n');
+}
+
+/**
+ * Render documents for an LLM prompt, one <document> element per file. The
+ * order attribute reflects each document's position in the whole project,
+ * which may hold more documents than are rendered.
+ */
+export function formatDocumentsForPrompt(documents: SOWDocument[], project: SOWDocument[] = documents): string {
+  const order = orderDocuments(project).map(doc => doc.id);
+
+  return orderDocuments(documents)
+    .map(doc => {
+      const body = formatDocumentBody(doc);
+      const filename = doc.filename.replace(/"/g, "'");
+      return `<document id="${doc.id}" role="${doc.role}" order="${order.indexOf(doc.id) + 1}" filename="${filename}">\n${body}\n</document>`;
+    })
+    .join('\n\n');
+}
+
+function isPriority(value: unknown): value is Priority {
+  return typeof value === 'string' && value in PRIORITY_LABELS;
+}
+
+/**
+ * Normalize requirements returned by the LLM: accept bare strings, drop
+ * unknown source IDs, verify citations against the document text, and remove
+ * items that an out-of-scope section in the same or a later document
+ * excludes. A later change order can bring an earlier exclusion back into
+ * scope, so earlier exclusions are not applied.
+ */
+export function normalizeRequirements(
+  items: unknown,
+  documents: SOWDocument[],
+  applyExclusions = false
+): Requirement[] {
+  if (!Array.isArray(items)) return [];
+
+  const ordered = orderDocuments(documents);
+  const positions = new Map(ordered.map((doc, idx) => [doc.id, idx]));
+
+  return items
+    .map((item): Requirement | null => {
+      if (typeof item === 'string') {
+        return { text: item, sourceDocument: null, citation: null };
+      }
+      const raw = item as { text?: unknown; source?: unknown; page?: unknown; quote?: unknown; priority?: unknown } | null;
+      if (raw && typeof raw.text === 'string') {
+        const source = typeof raw.source === 'string' && positions.has(raw.source)
+          ? raw.source
+          : null;
+        const citation = resolveCitation({ source, page: raw.page, quote: raw.quote }, documents);
+        return {
+          text: raw.text,
+          // A verified quote is better evidence of the source than the claim
+          sourceDocument: citation?.verified ? citation.documentId : source,
+          citation,
+          ...(isPriority(raw.priority) ? { priority: raw.priority } : {}),
+        };
+      }
+      return null;
+    })
+    .filter((item): item is Requirement => item !== null && item.text.trim().length > 0)
+    .filter(item => {
+      if (!applyExclusions) return true;
+
+      const from = item.sourceDocument ? positions.get(item.sourceDocument) ?? 0 : 0;
+      const sections = ordered.slice(from).flatMap(doc => doc.outline);
+      return !isOutOfScope(item.text, sections);
+    });
+}
@@ -0,0 +1,147 @@
+import { Facet, RepoResult, ResultFilters, ResultSort } from './types';
+import { HEALTH_LABELS } from './health';
+
+/**
+ * Client-side facets, text filter and sort orders of the results view. Facet
+ * counts follow the usual convention: each facet counts the repos that match
+ * every other active filter, so selecting a value never hides its siblings.
+ */
+
+export const FACET_LABELS: Record<Facet, string> = {
+  language: 'Language',
+  license: 'License',
+  health: 'Health',
+  stars: 'Stars',
+  coverage: 'Coverage',
+};
+
+export const RESULT_SORT_LABELS: Record<ResultSort, string> = {
+  score: 'Ranking score',
+  stars: 'Stars',
+  recency: 'Last push',
+  coverage: 'SOW coverage',
+};
+
+export const DEFAULT_RESULT_FILTERS: ResultFilters = {
+  text: '',
+  facets: { language: [], license: [], health: [], stars: [], coverage: [] },
+  sort: 'score',
+};
+
+// Fixed values, in display order; language and license values come from the results
+const FIXED_VALUES: Partial<Record<Facet, Record<string, string>>> = {
+  health: HEALTH_LABELS,
+  stars: { '<100': 'Under 100', '100-1k': '100 - 1k', '1k-10k': '1k - 10k', '10k+': '10k+' },
+  coverage: { high: '70% and over', medium: '50 - 69%', low: 'Under 50%' },
+};
+
+const NO_VALUE = 'none';
+
+/**
+ * The value a repo has for a facet. Health is the label of the health score
+ * assessed during the search.
+ */
+export function facetValue(repo: RepoResult, facet: Facet): string {
+  switch (facet) {
+    case 'language':
+      return repo.language ?? NO_VALUE;
+    case 'license':
+      return repo.license ?? NO_VALUE;
+    case 'health':
+      return repo.health?.label ?? NO_VALUE;
+    case 'stars':
+      if (repo.stars < 100) return '<100';
+      if (repo.stars < 1000) return '100-1k';
+      return repo.stars < 10000 ? '1k-10k' : '10k+';
+    case 'coverage':
+      if (repo.coveragePercentage >= 70) return 'high';
+      return repo.coveragePercentage >= 50 ? 'medium' : 'low';
+  }
+}
+
+export function facetValueLabel(facet: Facet, value: string): string {
+  if (value === NO_VALUE) {
+    if (facet === 'license') return 'No license';
+    return facet === 'health' ? 'Not assessed' : 'Not detected';
+  }
+  return FIXED_VALUES[facet]?.[value] ?? value;
+}
+
+/**
+ * Whether any deliverable the repo covers or misses, or the judgement's
+ * justification, contains the text. `describe` gives a deliverable's text
+ * as the user sees it.
+ */
+function matchesText(repo: RepoResult, text: string, describe: (deliverableId: string) => string): boolean {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return true;
+
+  return repo.coverage.some(entry =>
+    `${describe(entry.deliverableId)} ${entry.justification}`.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Whether any filter is set; the sort order does not count
+ */
+export function isFiltering(filters: ResultFilters): boolean {
+  return filters.text.trim() !== '' || Object.values(filters.facets).some(values => values.length > 0);
+}
+
+/**
+ * Repos matching the text filter and every selected facet, except `ignore`
+ */
+export function filterRepos(
+  repos: RepoResult[],
+  filters: ResultFilters,
+  describe: (deliverableId: string) => string,
+  { ignore }: { ignore?: Facet } = {}
+): RepoResult[] {
+  const active = (Object.keys(filters.facets) as Facet[]).filter(
+    facet => facet !== ignore && filters.facets[facet].length > 0
+  );
+
+  return repos.filter(repo =>
+    active.every(facet => filters.facets[facet].includes(facetValue(repo, facet)))
+    && matchesText(repo, filters.text, describe)
+  );
+}
+
+/**
+ * Values of a facet with the number of repos each would show. Selected values
+ * are kept even when nothing matches them any more.
+ */
+export function facetOptions(
+  repos: RepoResult[],
+  filters: ResultFilters,
+  facet: Facet,
+  describe: (deliverableId: string) => string
+): { value: string; label: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const repo of filterRepos(repos, filters, describe, { ignore: facet })) {
+    const value = facetValue(repo, facet);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  filters.facets[facet].forEach(value => counts.set(value, counts.get(value) ?? 0));
+
+  const fixed = FIXED_VALUES[facet];
+  const values = fixed
+    ? Object.keys(fixed).filter(value => counts.has(value))
+    : [...counts.keys()].sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b));
+
+  return values.map(value => ({ value, label: facetValueLabel(facet, value), count: counts.get(value) ?? 0 }));
+}
+
+/**
+ * Comparator for the sort orders other than the ranking score, highest first
+ */
+export function compareRepos(sort: Exclude<ResultSort, 'score'>): (a: RepoResult, b: RepoResult) => number {
+  switch (sort) {
+    case 'stars':
+      return (a, b) => b.stars - a.stars;
+    case 'recency':
+      return (a, b) => new Date(b.pushedAt).getTime() - new Date(a.pushedAt).getTime();
+    case 'coverage':
+      return (a, b) => b.coveragePercentage - a.coveragePercentage;
+  }
+}
@@ -0,0 +1,197 @@
+import { LanguageSize, RepoFingerprint } from './types';
+import { TreeEntry } from './github';
+import { Manifest } from './manifests';
+import { declaredFrameworks } from './dependencies';
+
+/**
+ * A repository's fingerprint from its default-branch file tree: frameworks,
+ * tests, CI, containers, migrations, translations, docs and size by
+ * language. Everything is read from paths and sizes; no file is fetched
+ * beyond the manifests the caller already has.
+ */
+
+// Dependencies and build output, which say nothing about the project itself
+const IGNORED_DIRS = /(^|\/)(node_modules|vendor|dist|build|out|target|bin|obj|coverage|\.next|\.nuxt|__pycache__|\.venv|venv)\//;
+
+const GENERATED_FILE = /(\.min\.(js|css)|\.map|package-lock\.json|yarn\.lock|pnpm-lock\.yaml|\.lock|\.sum)$/;
+
+// Files whose presence identifies a framework without a manifest entry
+const FRAMEWORK_MARKERS: [RegExp, string][] = [
+  [/(^|\/)manage\.py$/, 'Django'],
+  [/(^|\/)artisan$/, 'Laravel'],
+  [/(^|\/)config\/routes\.rb$/, 'Rails'],
+  [/(^|\/)next\.config\.(js|mjs|ts)$/, 'Next.js'],
+  [/(^|\/)nuxt\.config\.(js|ts)$/, 'Nuxt'],
+  [/(^|\/)angular\.json$/, 'Angular'],
+  [/(^|\/)svelte\.config\.(js|ts)$/, 'Svelte'],
+  [/(^|\/)pubspec\.yaml$/, 'Flutter'],
+  [/(^|\/)(pom\.xml|build\.gradle(\.kts)?)$/, 'JVM (Maven/Gradle)'],
+  [/\.sln$/, '.NET solution'],
+  [/\.razor$/, 'Blazor'],
+];
+
+const TEST_FILE = /((^|\/)(tests?|__tests__|specs?|e2e)\/|\.(test|spec)\.[cm]?[jt]sx?$|_test\.(go|py)$|(^|\/)test_[^/]+\.py$|_spec\.rb$|Tests?\.(cs|php|java|kt)$)/i;
+
+// Test frameworks by dependency name or config file
+const TEST_FRAMEWORKS: [RegExp, string][] = [
+  [/^jest$|(^|\/)jest\.config\./, 'Jest'],
+  [/^vitest$|(^|\/)vitest\.config\./, 'Vitest'],
+  [/^mocha$|(^|\/)\.mocharc/, 'Mocha'],
+  [/^jasmine(-core)?$/, 'Jasmine'],
+  [/^karma$|(^|\/)karma\.conf\./, 'Karma'],
+  [/^cypress$|(^|\/)cypress\.config\./, 'Cypress'],
+  [/^@playwright\/test$|(^|\/)playwright\.config\./, 'Playwright'],
+  [/^pytest$|(^|\/)(pytest\.ini|conftest\.py)$/, 'pytest'],
+  [/^rspec(-rails)?$|(^|\/)\.rspec$/, 'RSpec'],
+  [/^minitest$/, 'Minitest'],
+  [/^phpunit\/phpunit$|(^|\/)phpunit\.xml(\.dist)?$/, 'PHPUnit'],
+  [/^pestphp\/pest$/, 'Pest'],
+  [/^xunit$/i, 'xUnit'],
+  [/^nunit$/i, 'NUnit'],
+  [/^mstest\.testframework$/i, 'MSTest'],
+  [/^github\.com\/stretchr\/testify$/, 'testify'],
+  [/_test\.go$/, 'go test'],
+];
+
+const CI_SYSTEMS: [RegExp, string][] = [
+  [/^\.github\/workflows\/[^/]+\.ya?ml$/, 'GitHub Actions'],
+  [/^\.gitlab-ci\.yml$/, 'GitLab CI'],
+  [/^\.circleci\/config\.yml$/, 'CircleCI'],
+  [/^\.travis\.yml$/, 'Travis CI'],
+  [/^azure-pipelines\.ya?ml$/, 'Azure Pipelines'],
+  [/^Jenkinsfile$/, 'Jenkins'],
+  [/^bitbucket-pipelines\.yml$/, 'Bitbucket Pipelines'],
+  [/^\.drone\.yml$/, 'Drone'],
+];
+
+const DOCKER_FILE = /(^|\/)(Dockerfile(\.[\w-]+)?|[\w-]+\.Dockerfile|(docker-)?compose(\.[\w-]+)?\.ya?ml)$/;
+
+// Directories holding schema migrations, by framework convention
+const MIGRATION_DIR = /^(.*\/)?(migrations|db\/migrate|database\/migrations|alembic\/versions|prisma\/migrations|Migrations)\//;
+
+const I18N_DIR = /(^|\/)(locales?|i18n|lang|translations|l10n)\//i;
+const I18N_FILE = /\.(po|pot|xliff?|resx|arb)$/;
+const I18N_DIR_FILE = /\.(json|ya?ml|properties|php|js|ts)$/;
+const LOCALE_NAME = /^([a-z]{2}(?:[-_][A-Za-z]{2,4})?)$/;
+
+const DOCS_DIR = /^(docs?|documentation)\//i;
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', mts: 'TypeScript', cts: 'TypeScript',
+  js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', rb: 'Ruby', go: 'Go', php: 'PHP', cs: 'C#', razor: 'C#', cshtml: 'C#',
+  java: 'Java', kt: 'Kotlin', swift: 'Swift', rs: 'Rust', dart: 'Dart', ex: 'Elixir', exs: 'Elixir',
+  vue: 'Vue', svelte: 'Svelte', html: 'HTML', css: 'CSS', scss: 'CSS', sass: 'CSS', less: 'CSS',
+  c: 'C', h: 'C', cpp: 'C++', cc: 'C++', hpp: 'C++', sql: 'SQL', sh: 'Shell',
+};
+
+// Languages shown in the size breakdown
+const MAX_LANGUAGES = 6;
+
+function extension(path: string): string {
+  const name = path.split('/').pop() ?? '';
+  return name.includes('.') ? (name.split('.').pop() ?? '').toLowerCase() : '';
+}
+
+function basename(path: string): string {
+  return (path.split('/').pop() ?? '').replace(/\.[^.]+$/, '');
+}
+
+// Locale codes from translation file names ("fr.json") or their directories ("fr/messages.json")
+function locales(paths: string[]): string[] {
+  const codes = paths.flatMap(path => {
+    const parts = path.split('/');
+    return [basename(path), parts[parts.length - 2] ?? ''].filter(part => LOCALE_NAME.test(part)).slice(0, 1);
+  });
+  return [...new Set(codes.map(code => code.replace('_', '-')))].sort();
+}
+
+function languageSizes(files: TreeEntry[]): LanguageSize[] {
+  const sizes = new Map<string, LanguageSize>();
+  for (const file of files) {
+    const language = LANGUAGES[extension(file.path)];
+    if (!language) continue;
+    const size = sizes.get(language) ?? { language, files: 0, bytes: 0 };
+    size.files += 1;
+    size.bytes += file.size;
+    sizes.set(language, size);
+  }
+  return [...sizes.values()].sort((a, b) => b.bytes - a.bytes).slice(0, MAX_LANGUAGES);
+}
+
+/**
+ * Fingerprint a repository from its tree and parsed manifests; null for an
+ * empty tree
+ */
+export function fingerprintRepo(tree: { entries: TreeEntry[]; truncated: boolean }, manifests: Manifest[]): RepoFingerprint | null {
+  const files = tree.entries.filter(entry => entry.type === 'blob' && !IGNORED_DIRS.test(entry.path));
+  if (files.length === 0) return null;
+
+  const paths = files.map(file => file.path);
+  const matching = (pattern: RegExp) => paths.filter(path => pattern.test(path));
+  const dependencyNames = manifests.flatMap(manifest => manifest.dependencies.map(dependency => dependency.name));
+
+  const frameworks = [
+    ...declaredFrameworks(manifests),
+    ...FRAMEWORK_MARKERS.filter(([pattern]) => paths.some(path => pattern.test(path))).map(([, name]) => name),
+  ];
+
+  const testFrameworks = TEST_FRAMEWORKS
+    .filter(([pattern]) => dependencyNames.some(name => pattern.test(name)) || paths.some(path => pattern.test(path)))
+    .map(([, name]) => name);
+
+  const migrations = matching(MIGRATION_DIR);
+  const translations = paths.filter(path => I18N_FILE.test(path) || (I18N_DIR.test(path) && I18N_DIR_FILE.test(path)));
+
+  const docsFiles = matching(DOCS_DIR);
+
+  return {
+    files: files.length,
+    truncated: tree.truncated,
+    frameworks: [...new Set(frameworks)],
+    tests: { files: matching(TEST_FILE).length, frameworks: testFrameworks },
+    ci: CI_SYSTEMS.filter(([pattern]) => paths.some(path => pattern.test(path))).map(([, name]) => name),
+    docker: matching(DOCKER_FILE),
+    migrations: {
+      files: migrations.length,
+      dirs: [...new Set(migrations.map(path => path.match(MIGRATION_DIR)?.[0].replace(/\/$/, '') ?? path))],
+    },
+    i18n: { files: translations.length, locales: locales(translations) },
+    docs: docsFiles.length > 0 ? { dir: docsFiles[0].split('/')[0], files: docsFiles.length } : null,
+    languages: languageSizes(files.filter(file => !GENERATED_FILE.test(file.path))),
+  };
+}
+
+export function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * A fingerprint as prompt lines, for estimating how much of a finished
+ * product the repository is
+ */
+export function formatFingerprint(fingerprint: RepoFingerprint): string {
+  const present = (label: string, detail: string | null) => `- ${label}: ${detail ?? 'none'}`;
+
+  return [
+    `- Files: ${fingerprint.files}${fingerprint.truncated ? '+ (tree truncated)' : ''}`,
+    present('Frameworks', fingerprint.frameworks.join(', ') || null),
+    present(
+      'Tests',
+      fingerprint.tests.files > 0
+        ? `${fingerprint.tests.files} test files${fingerprint.tests.frameworks.length > 0 ? ` (${fingerprint.tests.frameworks.join(', ')})` : ''}`
+        : null
+    ),
+    present('CI', fingerprint.ci.join(', ') || null),
+    present('Docker', fingerprint.docker.join(', ') || null),
+    present('Migrations', fingerprint.migrations.files > 0 ? `${fingerprint.migrations.files} files in ${fingerprint.migrations.dirs.join(', ')}` : null),
+    present(
+      'Translations',
+      fingerprint.i18n.files > 0
+        ? `${fingerprint.i18n.files} files${fingerprint.i18n.locales.length > 0 ? ` (${fingerprint.i18n.locales.join(', ')})` : ''}`
+        : null
+    ),
+    present('Docs folder', fingerprint.docs ? `${fingerprint.docs.dir}/ with ${fingerprint.docs.files} files` : null),
+    present('Size by language', fingerprint.languages.map(size => `${size.language} ${formatSize(size.bytes)}`).join(', ') || null),
+  ].join('\n');
+}
@@ -0,0 +1,216 @@
+import { Octokit } from '@octokit/rest';
+import { RepoSummary, SearchQuery } from './types';
+
+export const octokit = new Octokit({
+  auth: process.env.GITHUB_TOKEN,
+});
+
+export type GitHubRepo = Awaited<ReturnType<typeof octokit.search.repos>>['data']['items'][number];
+
+// A search result with the queries that returned it
+export type SearchCandidate = GitHubRepo & {
+  foundBy: string[]; // Query intents
+  foundForDeliverables: string[]; // IDs of the deliverables whose queries returned it
+};
+
+// Results GitHub returns per query and page
+export const SEARCH_PAGE_SIZE = 20;
+
+// GitHub search returns at most this many results per query
+const MAX_SEARCH_RESULTS = 1000;
+
+/**
+ * Whether an executed query has results beyond the pages fetched so far
+ */
+export function hasMorePages(query: SearchQuery, pagesFetched: number): boolean {
+  const reachable = Math.min(query.results ?? 0, MAX_SEARCH_RESULTS);
+  return reachable > pagesFetched * SEARCH_PAGE_SIZE;
+}
+
+export function toRepoSummary(repo: SearchCandidate, round: number): RepoSummary {
+  return {
+    id: repo.id,
+    owner: repo.owner?.login ?? repo.full_name.split('/')[0],
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description,
+    stars: repo.stargazers_count,
+    forks: repo.forks_count,
+    language: repo.language,
+    license: repo.license?.spdx_id && repo.license.spdx_id !== 'NOASSERTION' ? repo.license.spdx_id : null,
+    lastActivity: repo.updated_at,
+    pushedAt: repo.pushed_at,
+    archived: repo.archived ?? false,
+    isFork: repo.fork,
+    isTemplate: repo.is_template ?? false,
+    url: repo.html_url,
+    foundBy: repo.foundBy,
+    round,
+  };
+}
+
+/**
+ * A message when GitHub refused a request because of its rate limit, null
+ * for any other error
+ */
+export function rateLimitMessage(error: unknown): string | null {
+  const { status, message, response } = (error ?? {}) as {
+    status?: number;
+    message?: string;
+    response?: { headers?: Record<string, string | undefined> };
+  };
+  const headers = response?.headers ?? {};
+  const limited = status === 429
+    || (status === 403 && (headers['x-ratelimit-remaining'] === '0' || /rate limit/i.test(message ?? '')));
+  if (!limited) return null;
+
+  const reset = Number(headers['x-ratelimit-reset']);
+  const minutes = Number.isFinite(reset) && reset > 0 ? Math.max(1, Math.ceil((reset * 1000 - Date.now()) / 60000)) : null;
+  return `GitHub rate limit reached${minutes ? `, resets in ${minutes} min` : ''}${process.env.GITHUB_TOKEN ? '' : '; set GITHUB_TOKEN for higher limits'}`;
+}
+
+/**
+ * Run each query and interleave the results, so every query is represented
+ * among the top repos, not just the first one. Each repo records the intents
+ * of the queries that found it. `page` selects later pages of results.
+ *
+ * A failed query keeps its earlier result count and records the error. Once
+ * the rate limit is hit the remaining queries are not sent; `rateLimit` says
+ * so, since an empty result would be misleading.
+ */
+export async function searchGitHub(queries: SearchQuery[], page = 1) {
+  const resultsPerQuery: { query: SearchQuery; items: GitHubRepo[] }[] = [];
+  const executed: SearchQuery[] = [];
+  let rateLimit: string | null = null;
+
+  for (const query of queries) {
+    if (rateLimit) {
+      executed.push({ ...query, error: rateLimit });
+      continue;
+    }
+
+    try {
+      const response = await octokit.search.repos({
+        q: query.query,
+        sort: 'stars',
+        order: 'desc',
+        per_page: SEARCH_PAGE_SIZE,
+        page,
+      });
+      console.log(`GitHub search "${query.query}" (${query.intent}): ${response.data.total_count} results`);
+      resultsPerQuery.push({ query, items: response.data.items });
+      executed.push({ ...query, results: response.data.total_count, error: undefined });
+    } catch (error) {
+      console.error(`Search error for query "${query.query}":`, error);
+      rateLimit = rateLimitMessage(error);
+      executed.push({ ...query, error: rateLimit ?? 'Search failed' });
+    }
+  }
+
+  const allRepos: SearchCandidate[] = [];
+  const reposById = new Map<number, SearchCandidate>();
+  const longest = Math.max(0, ...resultsPerQuery.map(({ items }) => items.length));
+
+  for (let rank = 0; rank < longest; rank++) {
+    for (const { query, items } of resultsPerQuery) {
+      const repo = items[rank];
+      if (!repo) continue;
+
+      // Add unique repos
+      let entry = reposById.get(repo.id);
+      if (!entry) {
+        entry = { ...repo, foundBy: [], foundForDeliverables: [] };
+        reposById.set(repo.id, entry);
+        allRepos.push(entry);
+      }
+      if (!entry.foundBy.includes(query.intent)) entry.foundBy.push(query.intent);
+      if (query.deliverable && !entry.foundForDeliverables.includes(query.deliverable)) {
+        entry.foundForDeliverables.push(query.deliverable);
+      }
+    }
+  }
+
+  return { repos: allRepos, executed, rateLimit };
+}
+
+/**
+ * Beginning of a repo's README, or an empty string when it has none or it
+ * cannot be fetched
+ */
+export async function fetchReadmeExcerpt(owner: string, name: string, maxChars: number): Promise<string> {
+  try {
+    const response = await octokit.repos.getReadme({
+      owner,
+      repo: name,
+    });
+
+    return Buffer.from(response.data.content, 'base64').toString('utf-8').slice(0, maxChars);
+  } catch {
+    return '';
+  }
+}
+
+// README requests in flight at once
+const README_CONCURRENCY = 8;
+
+/**
+ * README excerpts for many repos, fetched a few at a time
+ */
+export async function fetchReadmeExcerpts(repos: Pick<RepoSummary, 'owner' | 'name'>[], maxChars: number): Promise<string[]> {
+  const excerpts: string[] = [];
+
+  for (let start = 0; start < repos.length; start += README_CONCURRENCY) {
+    const batch = repos.slice(start, start + README_CONCURRENCY);
+    excerpts.push(...await Promise.all(batch.map(repo => fetchReadmeExcerpt(repo.owner, repo.name, maxChars))));
+  }
+
+  return excerpts;
+}
+
+// A file or directory of a repository's tree
+export interface TreeEntry {
+  path: string;
+  type: 'blob' | 'tree';
+  size: number; // Bytes, 0 for directories
+}
+
+/**
+ * Every path of a branch, or an empty list when the tree cannot be fetched.
+ * GitHub truncates very large trees; `truncated` says so.
+ */
+export async function fetchRepoTree(owner: string, name: string, ref: string): Promise<{ entries: TreeEntry[]; truncated: boolean }> {
+  try {
+    const response = await octokit.git.getTree({ owner, repo: name, tree_sha: ref, recursive: 'true' });
+
+    return {
+      entries: response.data.tree.flatMap(({ path, type, size }) =>
+        path && (type === 'blob' || type === 'tree') ? [{ path, type, size: size ?? 0 }] : []
+      ),
+      truncated: response.data.truncated,
+    };
+  } catch (error) {
+    console.error(`Tree fetch error for ${owner}/${name}:`, error);
+    return { entries: [], truncated: false };
+  }
+}
+
+/**
+ * Text of a file on a branch, or null when it cannot be fetched
+ */
+export async function fetchFileText(owner: string, name: string, path: string, ref: string): Promise<string | null> {
+  try {
+    const response = await octokit.repos.getContent({ owner, repo: name, path, ref });
+    if (Array.isArray(response.data) || response.data.type !== 'file') return null;
+
+    return Buffer.from(response.data.content, 'base64').toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Link to a file on GitHub
+ */
+export function fileUrl(fullName: string, ref: string, path: string): string {
+  return `https://github.com/${fullName}/blob/${encodeURIComponent(ref)}/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
@@ -0,0 +1,317 @@
+import { HealthLabel, HealthReport, HealthSignal, HealthSignalKey, RepoSummary } from './types';
+import { octokit } from './github';
+
+/**
+ * Repository health from what maintainers actually do, not the last update
+ * date: commit frequency, release cadence, response time on issues and PRs,
+ * how many issues get closed, and how many people the commits depend on.
+ * Like the ranking, each signal scores 0 to 1 and the score is their
+ * weighted average scaled to 0-100. Signals GitHub has no data for are left
+ * out rather than counted as zero.
+ */
+
+export const HEALTH_SIGNAL_LABELS: Record<HealthSignalKey, string> = {
+  commits: 'Commit frequency',
+  releases: 'Release cadence',
+  responsiveness: 'Response time',
+  issues: 'Issues closed',
+  busFactor: 'Bus factor',
+};
+
+export const HEALTH_LABELS: Record<HealthLabel, string> = {
+  healthy: 'Healthy',
+  fair: 'Fair',
+  poor: 'Poor',
+  archived: 'Archived',
+};
+
+const HEALTH_WEIGHTS: Record<HealthSignalKey, number> = {
+  commits: 3,
+  releases: 1,
+  responsiveness: 2,
+  issues: 1,
+  busFactor: 2,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Issues and PRs sampled for response time; each costs a request for its comments
+const RESPONSE_SAMPLE = 10;
+
+// Issues and PRs younger than this are not expected to have an answer yet
+const MIN_AGE_DAYS = 3;
+
+// GitHub computes commit statistics on first request and answers 202 until they are ready
+const STATS_RETRY_MS = 1500;
+
+// Pages of 100 commits listed when the statistics are not ready
+const MAX_COMMIT_PAGES = 5;
+
+type SignalScore = { value: number; detail: string } | null;
+
+interface Contributor {
+  login?: string;
+  contributions: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function duration(hours: number): string {
+  if (hours < 1) return 'under an hour';
+  if (hours < 48) return `${Math.round(hours)} hours`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Commits per week over the last year, oldest first; null while GitHub is still computing them
+async function weeklyCommits(owner: string, repo: string): Promise<number[] | null> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const response = await octokit.repos.getCommitActivityStats({ owner, repo });
+    if (response.status === 200 && Array.isArray(response.data)) {
+      return response.data.map(week => week.total);
+    }
+    if (attempt === 0) await wait(STATS_RETRY_MS);
+  }
+  return null;
+}
+
+// Active weeks out of 26 score full marks
+async function commitSignal(owner: string, repo: string, now: number): Promise<SignalScore> {
+  const weeks = await weeklyCommits(owner, repo);
+  if (weeks) {
+    const total = weeks.reduce((sum, count) => sum + count, 0);
+    const active = weeks.filter(count => count > 0).length;
+    return {
+      value: Math.min(1, active / 26),
+      detail: `${total.toLocaleString()} commits in the last year, in ${active} of ${weeks.length} weeks`,
+    };
+  }
+
+  // Statistics not ready: list the last year's commits instead
+  const dates: number[] = [];
+  let complete = false;
+  for (let page = 1; page <= MAX_COMMIT_PAGES && !complete; page++) {
+    const response = await octokit.repos.listCommits({
+      owner,
+      repo,
+      since: new Date(now - 365 * DAY_MS).toISOString(),
+      per_page: 100,
+      page,
+    });
+    // A commit without an author date would count as 1970 and stretch the span
+    dates.push(...response.data.flatMap(commit => (commit.commit.author?.date ? [new Date(commit.commit.author.date).getTime()] : [])));
+    complete = response.data.length < 100;
+  }
+  if (dates.length === 0) return { value: 0, detail: 'No commits in the last year' };
+
+  const active = new Set(dates.map(date => Math.floor((now - date) / (7 * DAY_MS)))).size;
+  if (complete) {
+    return {
+      value: Math.min(1, active / 26),
+      detail: `${dates.length} commits in the last year, in ${active} weeks`,
+    };
+  }
+
+  // Page cap reached: judge the weeks the listed commits span, at the same rate of half the weeks active
+  const spanned = Math.max(1, Math.ceil((now - Math.min(...dates)) / (7 * DAY_MS)));
+  return {
+    value: Math.min(1, (active / spanned) * 2),
+    detail: `${dates.length}+ commits in the last ${spanned} weeks, in ${active} of them`,
+  };
+}
+
+// Four releases a year score full marks; only older releases score a little
+async function releaseSignal(owner: string, repo: string, now: number): Promise<SignalScore> {
+  const response = await octokit.repos.listReleases({ owner, repo, per_page: 30 });
+  const dates = response.data
+    .filter(release => !release.draft)
+    .map(release => new Date(release.published_at ?? release.created_at).getTime());
+  if (dates.length === 0) return null;
+
+  const lastYear = dates.filter(date => now - date <= 365 * DAY_MS).length;
+  if (lastYear === 0) {
+    const years = (now - Math.max(...dates)) / (365 * DAY_MS);
+    return { value: 0.2, detail: `No release in the last year, latest ${years.toFixed(1)} years ago` };
+  }
+  return {
+    value: Math.min(1, lastYear / 4),
+    detail: `${lastYear} release${lastYear === 1 ? '' : 's'} in the last year`,
+  };
+}
+
+function responseValue(hours: number): number {
+  if (hours <= 24) return 1;
+  if (hours <= 72) return 0.8;
+  if (hours <= 7 * 24) return 0.6;
+  return hours <= 30 * 24 ? 0.3 : 0.1;
+}
+
+/**
+ * Median time until someone other than the author first commented on recent
+ * issues and PRs, scaled down by the share that never got an answer
+ */
+async function responsivenessSignal(owner: string, repo: string, now: number): Promise<SignalScore> {
+  const response = await octokit.issues.listForRepo({ owner, repo, state: 'all', sort: 'created', per_page: 30 });
+  const sample = response.data
+    .filter(item => now - new Date(item.created_at).getTime() >= MIN_AGE_DAYS * DAY_MS)
+    .slice(0, RESPONSE_SAMPLE);
+  if (sample.length === 0) return null;
+
+  const waits = await Promise.all(
+    sample.map(async item => {
+      const comments = await octokit.issues.listComments({ owner, repo, issue_number: item.number, per_page: 20 });
+      const first = comments.data.find(
+        comment => comment.user && comment.user.login !== item.user?.login && comment.user.type !== 'Bot'
+      );
+      return first ? (new Date(first.created_at).getTime() - new Date(item.created_at).getTime()) / HOUR_MS : null;
+    })
+  );
+
+  const answered = waits.filter((hours): hours is number => hours !== null);
+  if (answered.length === 0) {
+    return { value: 0, detail: `None of the last ${sample.length} issues and PRs got a response` };
+  }
+
+  const hours = median(answered);
+  return {
+    value: responseValue(hours) * (answered.length / sample.length),
+    detail: `Median first response ${duration(hours)}, ${answered.length} of ${sample.length} recent issues and PRs answered`,
+  };
+}
+
+async function countIssues(owner: string, repo: string, state: 'open' | 'closed'): Promise<number> {
+  const response = await octokit.search.issuesAndPullRequests({
+    q: `repo:${owner}/${repo} type:issue state:${state}`,
+    per_page: 1,
+  });
+  return response.data.total_count;
+}
+
+// Share of all issues ever opened that are closed
+async function issueSignal(owner: string, repo: string): Promise<SignalScore> {
+  const [open, closed] = await Promise.all([countIssues(owner, repo, 'open'), countIssues(owner, repo, 'closed')]);
+  if (open + closed === 0) return null;
+
+  return {
+    value: closed / (open + closed),
+    detail: `${closed.toLocaleString()} closed, ${open.toLocaleString()} open`,
+  };
+}
+
+const BUS_FACTOR_VALUES = [0, 0.2, 0.5, 0.7, 0.85];
+
+/**
+ * Fewest contributors who made half of the commits. Contributors come from the
+ * caller, which lists them for the contributor count anyway.
+ */
+function busFactorSignal(contributors: Contributor[]): SignalScore {
+  const counts = contributors.map(contributor => contributor.contributions).sort((a, b) => b - a);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  let people = 0;
+  let share = 0;
+  while (share < total / 2) share += counts[people++];
+
+  const top = contributors.find(contributor => contributor.contributions === counts[0]);
+  return {
+    value: BUS_FACTOR_VALUES[people] ?? 1,
+    detail: people === 1
+      ? `${top?.login ?? 'One contributor'} made ${Math.round((counts[0] / total) * 100)}% of the commits`
+      : `${people} contributors made half of the commits`,
+  };
+}
+
+// A signal GitHub could not give is left out, like a signal without data
+async function settle(signal: HealthSignalKey, score: Promise<SignalScore>): Promise<SignalScore> {
+  try {
+    return await score;
+  } catch (error) {
+    console.error(`Health signal "${signal}" error:`, error);
+    return null;
+  }
+}
+
+function labelFor(score: number, archived: boolean): HealthLabel {
+  if (archived) return 'archived';
+  if (score >= 70) return 'healthy';
+  return score >= 40 ? 'fair' : 'poor';
+}
+
+/**
+ * Assess a repository's health; null when no signal could be read
+ */
+export async function assessHealth(
+  owner: string,
+  repo: string,
+  { archived, contributors, now = Date.now() }: { archived: boolean; contributors: Contributor[]; now?: number }
+): Promise<HealthReport | null> {
+  const [commits, releases, responsiveness, issues] = await Promise.all([
+    settle('commits', commitSignal(owner, repo, now)),
+    settle('releases', releaseSignal(owner, repo, now)),
+    settle('responsiveness', responsivenessSignal(owner, repo, now)),
+    settle('issues', issueSignal(owner, repo)),
+  ]);
+  const scores: Record<HealthSignalKey, SignalScore> = {
+    commits,
+    releases,
+    responsiveness,
+    issues,
+    busFactor: busFactorSignal(contributors),
+  };
+
+  const scored = (Object.keys(HEALTH_WEIGHTS) as HealthSignalKey[])
+    .map(signal => ({ signal, weight: HEALTH_WEIGHTS[signal], score: scores[signal] }))
+    .filter((entry): entry is { signal: HealthSignalKey; weight: number; score: NonNullable<SignalScore> } =>
+      entry.score !== null
+    );
+
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) return null;
+
+  const signals: HealthSignal[] = scored.map(({ signal, weight, score }) => ({
+    signal,
+    value: score.value,
+    weight,
+    points: (weight * score.value * 100) / totalWeight,
+    detail: score.detail,
+  }));
+
+  const score = Math.round(signals.reduce((sum, signal) => sum + signal.points, 0));
+  return { score, label: labelFor(score, archived), signals };
+}
+
+/**
+ * Health of a search result, which comes without its contributors; null when
+ * GitHub gave no signal. The results view filters on its label.
+ */
+export async function assessResultHealth(
+  repo: Pick<RepoSummary, 'owner' | 'name' | 'archived'>,
+  now = Date.now()
+): Promise<HealthReport | null> {
+  try {
+    const { data: contributors } = await octokit.repos.listContributors({ owner: repo.owner, repo: repo.name, per_page: 100 });
+    return await assessHealth(repo.owner, repo.name, { archived: repo.archived, contributors, now });
+  } catch (error) {
+    console.error(`Health error for ${repo.owner}/${repo.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Health as prompt lines, so the fit analysis can name maintenance risks
+ */
+export function formatHealth(health: HealthReport): string {
+  return [
+    `Health score: ${health.score}/100 (${HEALTH_LABELS[health.label]})`,
+    ...health.signals.map(signal => `- ${HEALTH_SIGNAL_LABELS[signal.signal]}: ${signal.detail}`),
+  ].join('\n');
+}
@@ -0,0 +1,192 @@
+import { IntegrationCheck, IntegrationEvidence, IntegrationStatus } from './types';
+import { fileUrl, octokit, TreeEntry } from './github';
+import { Manifest } from './manifests';
+import { stripPlaceholders } from './redaction';
+import { significantWords } from './sections';
+
+/**
+ * Checks whether a repository actually implements the integrations a SOW
+ * requires, rather than taking the README's word for it:
+ * - verified: an SDK in a dependency manifest, or source files that use it
+ * - mentioned: only documentation or the README talks about it
+ * - absent: nothing in the repository refers to it
+ */
+
+interface Vendor {
+  name: string;
+  pattern: RegExp; // Matches the integration text from the SOW, and README mentions
+  keyword: string; // Code search query; specific to the vendor, e.g. an API host rather than "calendar"
+  files?: RegExp; // File paths referring to it, when the keyword as a word is too generic
+  packages: RegExp; // Matches SDK package names in any ecosystem
+}
+
+// A word in a path or text, bounded by anything but a letter or digit, so
+// "stripe_client.py" matches "stripe" and "css3" does not match "s3"
+function wordPattern(word: string): RegExp {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}([^a-z0-9]|$)`, 'i');
+}
+
+// Products SOWs commonly name, with the package names of their SDKs
+const VENDORS: Vendor[] = [
+  { name: 'Stripe', pattern: /\bstripe\b/i, keyword: 'stripe', packages: /stripe/i },
+  { name: 'PayPal', pattern: /\bpaypal\b/i, keyword: 'paypal', packages: /paypal/i },
+  { name: 'Braintree', pattern: /\bbraintree\b/i, keyword: 'braintree', packages: /braintree/i },
+  { name: 'Square', pattern: /\bsquare\b/i, keyword: 'squareup', packages: /^(square|squareup)$|square[-_.]?(connect|sdk)|@square\//i },
+  { name: 'Twilio', pattern: /\btwilio\b/i, keyword: 'twilio', packages: /twilio/i },
+  { name: 'Vonage', pattern: /\b(vonage|nexmo)\b/i, keyword: 'vonage', packages: /vonage|nexmo/i },
+  { name: 'SendGrid', pattern: /\bsendgrid\b/i, keyword: 'sendgrid', packages: /sendgrid/i },
+  { name: 'Mailgun', pattern: /\bmailgun\b/i, keyword: 'mailgun', packages: /mailgun/i },
+  { name: 'Postmark', pattern: /\bpostmark\b/i, keyword: 'postmark', packages: /postmark/i },
+  { name: 'Mailchimp', pattern: /\bmailchimp\b/i, keyword: 'mailchimp', packages: /mailchimp/i },
+  { name: 'Slack', pattern: /\bslack\b/i, keyword: 'slack.com', packages: /^@slack\/|^slack[-_](sdk|bolt|client|notifier|ruby-client)|^slack-api|slackapi/i },
+  { name: 'Google Maps', pattern: /\bgoogle maps\b/i, keyword: 'googlemaps', packages: /google[-_.]?maps|googlemaps/i },
+  { name: 'Mapbox', pattern: /\bmapbox\b/i, keyword: 'mapbox', packages: /mapbox/i },
+  { name: 'Google Calendar', pattern: /\bgoogle calendar\b/i, keyword: 'googleapis.com/calendar', files: /google[-_]?calendar|gcal/i, packages: /@googleapis\/calendar|google[-.]apis[-.]calendar|google[-_]calendar|gcal/i },
+  { name: 'Microsoft Graph', pattern: /\b(microsoft graph|outlook|office 365|microsoft 365)\b/i, keyword: 'graph.microsoft', packages: /microsoft[-.]graph|msgraph|msal/i },
+  { name: 'Zoom', pattern: /\bzoom\b/i, keyword: 'api.zoom.us', files: /zoom[-_]?(api|meeting|sdk|video)|zoomus/i, packages: /^@zoom(us)?\/|zoomus|zoom[-_]?(api|sdk|video|meeting)/i },
+  { name: 'Auth0', pattern: /\bauth0\b/i, keyword: 'auth0', packages: /auth0/i },
+  { name: 'Okta', pattern: /\bokta\b/i, keyword: 'okta', packages: /okta/i },
+  { name: 'Firebase', pattern: /\bfirebase\b/i, keyword: 'firebase', packages: /firebase/i },
+  { name: 'Amazon S3', pattern: /\b(s3|amazon s3|aws s3)\b/i, keyword: 's3.amazonaws.com', files: /(^|[^a-z0-9])s3([^a-z0-9]|$)/i, packages: /^aws-sdk$|@aws-sdk\/client-s3|^boto3$|aws-sdk-s3|AWSSDK\.S3/i },
+  { name: 'Salesforce', pattern: /\bsalesforce\b/i, keyword: 'salesforce', packages: /salesforce|jsforce|restforce/i },
+  { name: 'HubSpot', pattern: /\bhubspot\b/i, keyword: 'hubspot', packages: /hubspot/i },
+  { name: 'Shopify', pattern: /\bshopify\b/i, keyword: 'shopify', packages: /shopify/i },
+  { name: 'QuickBooks', pattern: /\b(quickbooks|intuit)\b/i, keyword: 'quickbooks', packages: /quickbooks|intuit/i },
+  { name: 'Xero', pattern: /\bxero\b/i, keyword: 'xero', packages: /xero/i },
+  { name: 'Plaid', pattern: /\bplaid\b/i, keyword: 'plaid', packages: /plaid/i },
+  { name: 'OpenAI', pattern: /\b(openai|chatgpt|gpt-\d)\b/i, keyword: 'openai', packages: /openai/i },
+  { name: 'Sentry', pattern: /\bsentry\b/i, keyword: 'sentry', packages: /sentry/i },
+  { name: 'Algolia', pattern: /\balgolia\b/i, keyword: 'algolia', packages: /algolia/i },
+  { name: 'Segment', pattern: /\bSegment\b|\bsegment\.(io|com)\b/, keyword: 'api.segment.io', files: /segment[-_]?(analytics|io)|analytics[-_]segment/i, packages: /^analytics-node$|^@segment\/|segment[-_]analytics/i },
+];
+
+// Words of an integration requirement that name no product
+const GENERIC_WORDS = new Set([
+  'integration', 'integrate', 'integrated', 'with', 'api', 'apis', 'system', 'systems', 'service', 'services',
+  'existing', 'client', 'third', 'party', 'platform', 'support', 'connect', 'connection', 'sync', 'data',
+]);
+
+const DOC_FILE = /(\.(md|mdx|markdown|rst|txt|adoc)$|(^|\/)docs?\/)/i;
+const LOCK_FILE = /(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|poetry\.lock|Gemfile\.lock|go\.sum|composer\.lock|packages\.lock\.json)$/i;
+
+// Integrations checked per repository, and evidence files kept per integration
+const MAX_INTEGRATIONS = 8;
+const MAX_EVIDENCE = 5;
+
+/**
+ * The product an integration requirement names, or a keyword to search for
+ * when it is not a known product
+ */
+function identifyIntegration(text: string): { vendor: Vendor | null; keyword: string | null } {
+  const clean = stripPlaceholders(text);
+  const vendor = VENDORS.find(candidate => candidate.pattern.test(clean));
+  if (vendor) return { vendor, keyword: vendor.keyword };
+
+  // Prefer a capitalised word, which is likely a product name
+  const named = clean.match(/\b[A-Z][A-Za-z0-9]{2,}\b/g)?.find(word => !GENERIC_WORDS.has(word.toLowerCase()));
+  const keyword = named?.toLowerCase() ?? significantWords(clean).find(word => !GENERIC_WORDS.has(word)) ?? null;
+  return { vendor: null, keyword };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Files the code search finds for a keyword; null when the search fails
+// (it needs a token and is rate limited)
+async function searchCode(fullName: string, keyword: string): Promise<string[] | null> {
+  try {
+    const response = await octokit.search.code({ q: `${keyword} repo:${fullName}`, per_page: 20 });
+    return response.data.items.map(item => item.path);
+  } catch (error) {
+    console.error(`Code search error for "${keyword}" in ${fullName}:`, error);
+    return null;
+  }
+}
+
+function statusOf(evidence: IntegrationEvidence[], mentionedInReadme: boolean): IntegrationStatus {
+  if (evidence.some(item => item.kind !== 'docs')) return 'verified';
+  return evidence.length > 0 || mentionedInReadme ? 'mentioned' : 'absent';
+}
+
+/**
+ * Check each integration against the dependency manifests, then code search,
+ * falling back to file paths in the tree when code search is unavailable
+ */
+export async function verifyIntegrations(
+  repo: { fullName: string; ref: string },
+  integrations: string[],
+  { manifests, tree, readme }: { manifests: Manifest[]; tree: TreeEntry[]; readme: string }
+): Promise<IntegrationCheck[]> {
+  const link = (path: string) => fileUrl(repo.fullName, repo.ref, path);
+
+  return Promise.all(
+    integrations.slice(0, MAX_INTEGRATIONS).map(async (integration): Promise<IntegrationCheck> => {
+      const { vendor, keyword } = identifyIntegration(integration);
+      if (!keyword) {
+        return { integration, vendor: null, keyword: null, status: 'absent', evidence: [] };
+      }
+
+      const mentions = vendor?.pattern ?? wordPattern(keyword);
+      const files = vendor?.files ?? wordPattern(keyword);
+      const packages = vendor?.packages ?? wordPattern(keyword);
+      const evidence: IntegrationEvidence[] = [];
+
+      // SDKs declared in manifests
+      for (const manifest of manifests) {
+        for (const dependency of manifest.dependencies.filter(item => packages.test(item.name))) {
+          evidence.push({
+            kind: 'dependency',
+            path: manifest.path,
+            url: link(manifest.path),
+            detail: `${dependency.name}${dependency.version ? ` ${dependency.version}` : ''}${dependency.dev ? ' (dev)' : ''}`,
+          });
+        }
+      }
+
+      // Files that use or document it; lock files only repeat the manifests
+      const found = await searchCode(repo.fullName, keyword)
+        ?? tree.filter(entry => entry.type === 'blob' && files.test(entry.path)).map(entry => entry.path);
+
+      for (const path of found.filter(path => !LOCK_FILE.test(path))) {
+        if (evidence.some(item => item.path === path)) continue;
+        const docs = DOC_FILE.test(path);
+        evidence.push({
+          kind: docs ? 'docs' : 'code',
+          path,
+          url: link(path),
+          detail: docs ? `Mentions ${keyword}` : `Refers to ${keyword}`,
+        });
+      }
+
+      // Dependencies and code first, so they survive the cap
+      const kept = [...evidence.filter(item => item.kind !== 'docs'), ...evidence.filter(item => item.kind === 'docs')]
+        .slice(0, MAX_EVIDENCE);
+
+      return {
+        integration,
+        vendor: vendor?.name ?? null,
+        keyword,
+        status: statusOf(kept, mentions.test(readme)),
+        evidence: kept,
+      };
+    })
+  );
+}
+
+/**
+ * Integration checks as prompt lines, so the fit analysis does not claim an
+ * integration the code does not have
+ */
+export function formatIntegrationChecks(checks: IntegrationCheck[]): string {
+  return checks
+    .map(check => {
+      const what = check.vendor ?? check.integration;
+      if (check.status === 'verified') {
+        return `- ${what}: VERIFIED in ${check.evidence.filter(item => item.kind !== 'docs').map(item => item.path).join(', ')}`;
+      }
+      if (check.status === 'mentioned') return `- ${what}: MENTIONED in documentation only, no SDK or code found`;
+      return `- ${what}: ABSENT, nothing in the repository refers to it`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,137 @@
+import { DistributionModel, LicenseAssessment, LicenseClass, LicenseCompatibility } from './types';
+import { ResolvedAnswer } from './context';
+
+/**
+ * License classification by SPDX identifier, as reported by GitHub, and its
+ * compatibility with how the client's deliverable is distributed
+ */
+
+export const LICENSE_CLASS_LABELS: Record<LicenseClass, string> = {
+  permissive: 'Permissive',
+  weakCopyleft: 'Weak copyleft',
+  strongCopyleft: 'Strong copyleft',
+  networkCopyleft: 'Network copyleft',
+  unknown: 'Unknown',
+};
+
+export const DISTRIBUTION_MODEL_LABELS: Record<DistributionModel, string> = {
+  proprietary: 'Closed-source product',
+  saas: 'Hosted service (SaaS)',
+  internal: 'Internal use only',
+  openSource: 'Released as open source',
+};
+
+export const LICENSE_COMPATIBILITY_LABELS: Record<LicenseCompatibility, string> = {
+  compatible: 'Compatible',
+  review: 'Needs review',
+  incompatible: 'Incompatible',
+};
+
+// Checked in order; the first matching pattern wins
+const LICENSE_CLASSES: [RegExp, LicenseClass][] = [
+  [/^(AGPL|SSPL|OSL|RPL)-/i, 'networkCopyleft'],
+  [/^(LGPL|MPL|EPL|CDDL|MS-RL|CPL|CECILL-C)-?/i, 'weakCopyleft'],
+  [/^(GPL|EUPL|CECILL)-/i, 'strongCopyleft'],
+  [/^(MIT|MIT-0|Apache-2\.0|BSD-\d-Clause.*|ISC|0BSD|Unlicense|Zlib|BSL-1\.0|CC0-1\.0|WTFPL|PostgreSQL|MS-PL|Artistic-2\.0|Python-2\.0|UPL-1\.0|NCSA|X11)$/i, 'permissive'],
+];
+
+// What each copyleft class requires under each distribution model; permissive
+// licenses are compatible with all of them
+const COPYLEFT_RULES: Record<
+  DistributionModel,
+  Record<Exclude<LicenseClass, 'permissive' | 'unknown'>, [LicenseCompatibility, string]>
+> = {
+  proprietary: {
+    weakCopyleft: ['review', 'can be used as an unmodified library, but changes to its own files must be published'],
+    strongCopyleft: ['incompatible', 'requires releasing the whole product under the same license'],
+    networkCopyleft: ['incompatible', 'requires releasing the whole product under the same license'],
+  },
+  saas: {
+    weakCopyleft: ['compatible', 'only applies to changed files, and only when they are distributed'],
+    strongCopyleft: ['review', 'is fine for hosted code, but any part shipped to users (apps, on-premise installs) must be released'],
+    networkCopyleft: ['incompatible', 'requires offering the source of the hosted service to its users'],
+  },
+  internal: {
+    weakCopyleft: ['compatible', 'places no obligations on software that is not distributed'],
+    strongCopyleft: ['compatible', 'places no obligations on software that is not distributed'],
+    networkCopyleft: ['review', 'requires offering the source to anyone outside the organisation who uses it over a network'],
+  },
+  openSource: {
+    weakCopyleft: ['compatible', 'can be combined with most open-source licenses'],
+    strongCopyleft: ['review', 'requires releasing the deliverable under the same license'],
+    networkCopyleft: ['review', 'requires releasing the deliverable under the same license'],
+  },
+};
+
+// Phrases in answers or context that state the distribution model, checked in
+// order: "closed-source SaaS" is a hosted service for licensing purposes
+const DISTRIBUTION_PATTERNS: [RegExp, DistributionModel][] = [
+  [/\b(internal(ly)?( use| only| tool)|in-house( use)?( only)?|employees only|intranet)\b/i, 'internal'],
+  [/\b(saas|software as a service|multi-tenant|cloud[- ]hosted|hosted (service|platform|solution|web app))\b/i, 'saas'],
+  [/\b(closed[- ]source|proprietary|sold to|resold|resell|white[- ]label|app stores?|on[- ]prem(ise|ises)? (install|deployment)s?)\b/i, 'proprietary'],
+  [/\b(release[sd]?|publish(ed)?|distribute[sd]?)\b[^.\n]*\bopen[- ]source\b|^\s*open[- ]source\s*$/im, 'openSource'],
+];
+
+/**
+ * Class of a license. Missing licenses and licenses GitHub could not
+ * identify are "unknown": the code cannot be reused without asking.
+ */
+export function classifyLicense(spdxId: string | null): LicenseClass {
+  if (!spdxId) return 'unknown';
+  return LICENSE_CLASSES.find(([pattern]) => pattern.test(spdxId))?.[1] ?? 'unknown';
+}
+
+/**
+ * Distribution model stated in the user's answers or free-text context;
+ * null when none of them says
+ */
+export function inferDistributionModel(answers: ResolvedAnswer[], additionalContext?: string | null): DistributionModel | null {
+  const text = [...answers.map(({ answer }) => answer), additionalContext || ''].join('\n');
+  return DISTRIBUTION_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * The distribution model to check licenses against: the project setting when
+ * chosen, otherwise what the answers and context say
+ */
+export function resolveDistributionModel(
+  setting: DistributionModel | null | undefined,
+  answers: ResolvedAnswer[],
+  additionalContext?: string | null
+): DistributionModel | null {
+  return setting ?? inferDistributionModel(answers, additionalContext);
+}
+
+/**
+ * Check a license against the distribution model. Without a model, only
+ * permissive licenses count as compatible.
+ */
+export function assessLicense(spdxId: string | null, model: DistributionModel | null): LicenseAssessment {
+  const licenseClass = classifyLicense(spdxId);
+  const assessment = (compatibility: LicenseCompatibility, reason: string): LicenseAssessment => ({
+    license: spdxId,
+    licenseClass,
+    distributionModel: model,
+    compatibility,
+    reason,
+  });
+
+  if (!spdxId) return assessment('incompatible', "No license: the code cannot be reused without the author's permission");
+  if (licenseClass === 'unknown') return assessment('review', `${spdxId} is not a recognised license; read it before reuse`);
+  if (licenseClass === 'permissive') return assessment('compatible', `${spdxId} allows reuse in any product with attribution`);
+
+  if (!model) {
+    return assessment('review', `${spdxId} is ${LICENSE_CLASS_LABELS[licenseClass].toLowerCase()}; whether it fits depends on how the deliverable is distributed`);
+  }
+
+  const [compatibility, reason] = COPYLEFT_RULES[model][licenseClass];
+  return assessment(compatibility, `${spdxId} ${reason}`);
+}
+
+/**
+ * A license assessment as a prompt line
+ */
+export function formatLicenseAssessment(assessment: LicenseAssessment): string {
+  const model = assessment.distributionModel ? DISTRIBUTION_MODEL_LABELS[assessment.distributionModel] : 'not stated';
+  return `License: ${assessment.license ?? 'none'} (${LICENSE_CLASS_LABELS[assessment.licenseClass].toLowerCase()}), distribution model: ${model} - ${LICENSE_COMPATIBILITY_LABELS[assessment.compatibility].toUpperCase()}: ${assessment.reason}`;
+}
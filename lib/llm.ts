@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { ChatMessage, getProvider, LLMTask } from './providers';
+
+// Re-prompts allowed after the first reply fails to parse or validate
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Index just past the JSON value starting at `start`, honouring strings, or
+ * -1 when the value is never closed
+ */
+function findValueEnd(text: string, start: number): number {
+  const closing: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') closing.push('}');
+    else if (char === '[') closing.push(']');
+    else if (char === '}' || char === ']') {
+      if (closing.pop() !== char) return -1;
+      if (closing.length === 0) return i + 1;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Extract a JSON value from a model reply that may wrap it in prose or a
+ * markdown code fence
+ */
+export function extractJSON(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall through to scanning for the outermost object or array
+  }
+
+  const start = candidate.search(/[{[]/);
+  if (start === -1) {
+    throw new Error('No JSON object found in the reply');
+  }
+
+  const end = findValueEnd(candidate, start);
+  if (end === -1) {
+    throw new Error('The JSON in the reply is incomplete');
+  }
+
+  return JSON.parse(candidate.slice(start, end));
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Send a prompt to the provider configured for `task` and return its JSON
+ * reply, validated against `schema`. A reply that cannot be parsed or fails
+ * validation is answered with a repair prompt listing the problems, up to
+ * MAX_REPAIR_ATTEMPTS times.
+ */
+export async function completeJSON<T>(
+  task: LLMTask,
+  prompt: string,
+  schema: z.ZodType<T>,
+  { maxTokens = 2048 }: { maxTokens?: number } = {}
+): Promise<T> {
+  const provider = getProvider(task);
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  let problem = '';
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { text: responseText, truncated } = await provider.complete(messages, { maxTokens });
+
+    // A reply cut off at the token limit cannot be repaired by asking again
+    if (truncated) {
+      throw new Error('Model response was truncated - the input produced more output than the model allows');
+    }
+
+    try {
+      const result = schema.safeParse(extractJSON(responseText));
+      if (result.success) {
+        return result.data;
+      }
+      problem = `The JSON does not match the required format:\n${describeIssues(result.error)}`;
+    } catch (error) {
+      problem = `The reply is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`;
+    }
+
+    console.error(`LLM reply rejected (${provider.name}/${provider.model}, attempt ${attempt + 1}):`, problem);
+
+    messages.push(
+      { role: 'assistant', content: responseText || '(empty reply)' },
+      {
+        role: 'user',
+        content: `Your reply could not be used.\n${problem}\n\nReply again with ONLY the corrected JSON, in the format requested above, with no additional text.`,
+      }
+    );
+  }
+
+  throw new Error(`Model response failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts`);
+}
@@ -0,0 +1,264 @@
+import { Ecosystem, RuntimeName } from './types';
+import { fetchFileText, TreeEntry } from './github';
+
+/**
+ * Dependency manifests of a repository: where they are and what they declare.
+ * Parsing is deliberately shallow (no TOML or XML parser); it reads the
+ * dependency names, version specs and runtime versions the common layouts use.
+ */
+
+export interface Dependency {
+  name: string;
+  version: string | null; // Version spec as written, e.g. "^18.2.0" or ">=4.2"
+  dev: boolean; // Only needed for development or tests
+}
+
+// A language runtime or platform the manifest requires
+export interface Runtime {
+  name: RuntimeName;
+  version: string; // As written, e.g. ">=18", "^3.9", "1.21" or "net8.0"
+}
+
+export interface Manifest {
+  path: string;
+  ecosystem: Ecosystem;
+  dependencies: Dependency[];
+  runtimes: Runtime[];
+}
+
+// Manifests here belong to examples, tests or vendored code, not the project
+const IGNORED_DIRS = /(^|\/)(node_modules|vendor|dist|build|examples?|samples?|tests?|fixtures|\.[^/]+)\//i;
+
+// Manifests this deep or deeper are not read (root is depth 0)
+const MAX_DEPTH = 3;
+
+const MAX_MANIFESTS = 8;
+
+function parseJson(text: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Dependencies of a JSON object like package.json "dependencies"
+function jsonDependencies(value: unknown, dev: boolean, skip: (name: string) => boolean = () => false): Dependency[] {
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([name]) => !skip(name))
+    .map(([name, version]) => ({ name, version: typeof version === 'string' ? version : null, dev }));
+}
+
+function parsePackageJson(text: string): Dependency[] {
+  const json = parseJson(text);
+  if (!json) return [];
+  return [...jsonDependencies(json.dependencies, false), ...jsonDependencies(json.devDependencies, true)];
+}
+
+function packageJsonRuntimes(text: string): Runtime[] {
+  const engines = parseJson(text)?.engines as Record<string, unknown> | undefined;
+  return typeof engines?.node === 'string' ? [{ name: 'Node.js', version: engines.node }] : [];
+}
+
+function parseComposerJson(text: string): Dependency[] {
+  const json = parseJson(text);
+  if (!json) return [];
+  // The PHP version and extensions are platform requirements, not packages
+  const platform = (name: string) => name === 'php' || name.startsWith('ext-');
+  return [...jsonDependencies(json.require, false, platform), ...jsonDependencies(json['require-dev'], true, platform)];
+}
+
+function composerJsonRuntimes(text: string): Runtime[] {
+  const php = (parseJson(text)?.require as Record<string, unknown> | undefined)?.php;
+  return typeof php === 'string' ? [{ name: 'PHP', version: php }] : [];
+}
+
+// A PEP 508 requirement, e.g. "django[argon2]>=4.2; python_version > '3.8'"
+function parseRequirement(line: string, dev: boolean): Dependency | null {
+  const match = line.split(';')[0].trim().match(/^([A-Za-z0-9][\w.-]*)(\[[^\]]*\])?\s*(.*)$/);
+  if (!match) return null;
+  return { name: match[1], version: match[3].trim() || null, dev };
+}
+
+function parseRequirementsTxt(text: string, path: string): Dependency[] {
+  const dev = /(dev|test)/i.test(path.split('/').pop() ?? '');
+  return text
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line && !line.startsWith('-'))
+    .flatMap(line => parseRequirement(line, dev) ?? []);
+}
+
+function parsePyproject(text: string): Dependency[] {
+  const dependencies: Dependency[] = [];
+
+  // PEP 621: dependencies = ["fastapi>=0.100", ...]
+  const pep621 = text.match(/^dependencies\s*=\s*\[([\s\S]*?)\]/m);
+  for (const [, requirement] of pep621?.[1].matchAll(/["']([^"']+)["']/g) ?? []) {
+    const dependency = parseRequirement(requirement, false);
+    if (dependency) dependencies.push(dependency);
+  }
+
+  // Poetry: name = "^1.2" or name = { version = "^1.2", ... } in dependency tables
+  let table: 'main' | 'dev' | null = null;
+  for (const line of text.split('\n')) {
+    const header = line.match(/^\s*\[([^\]]+)\]/);
+    if (header) {
+      const name = header[1].trim();
+      table = name === 'tool.poetry.dependencies'
+        ? 'main'
+        : /^tool\.poetry\.(dev-dependencies|group\.[\w-]+\.dependencies)$/.test(name) ? 'dev' : null;
+      continue;
+    }
+    if (!table) continue;
+
+    const entry = line.match(/^\s*([A-Za-z0-9][\w.-]*)\s*=\s*(?:"([^"]*)"|\{[^}]*version\s*=\s*"([^"]*)")?/);
+    if (entry && entry[1] !== 'python') {
+      dependencies.push({ name: entry[1], version: entry[2] ?? entry[3] ?? null, dev: table === 'dev' });
+    }
+  }
+
+  return dependencies;
+}
+
+// PEP 621 requires-python, or Poetry's python dependency
+function pyprojectRuntimes(text: string): Runtime[] {
+  const version = text.match(/^requires-python\s*=\s*["']([^"']+)["']/m)?.[1]
+    ?? text.match(/^python\s*=\s*"([^"]+)"/m)?.[1];
+  return version ? [{ name: 'Python', version }] : [];
+}
+
+function parseGemfile(text: string): Dependency[] {
+  const dependencies: Dependency[] = [];
+  let devGroup = false;
+
+  for (const line of text.split('\n')) {
+    const group = line.match(/^\s*group\s+(.+?)\s+do\b/);
+    if (group) {
+      devGroup = /:(development|test)\b/.test(group[1]);
+      continue;
+    }
+    if (/^end\b/.test(line.trim())) {
+      devGroup = false;
+      continue;
+    }
+
+    const gem = line.match(/^\s*gem\s+['"]([^'"]+)['"](?:\s*,\s*['"]([^'"]+)['"])?/);
+    if (gem) dependencies.push({ name: gem[1], version: gem[2] ?? null, dev: devGroup });
+  }
+
+  return dependencies;
+}
+
+function gemfileRuntimes(text: string): Runtime[] {
+  const version = text.match(/^\s*ruby\s+['"]([^'"]+)['"]/m)?.[1];
+  return version ? [{ name: 'Ruby', version }] : [];
+}
+
+function parseGoMod(text: string): Dependency[] {
+  const dependencies: Dependency[] = [];
+  let inBlock = false;
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (/^require\s*\($/.test(trimmed)) {
+      inBlock = true;
+      continue;
+    }
+    if (inBlock && trimmed === ')') {
+      inBlock = false;
+      continue;
+    }
+
+    // Indirect requirements are dependencies of dependencies
+    const requirement = (inBlock ? trimmed : trimmed.match(/^require\s+(.+)$/)?.[1] ?? '')
+      .match(/^(\S+)\s+(v\S+)(\s*\/\/\s*indirect)?/);
+    if (requirement && !requirement[3]) {
+      dependencies.push({ name: requirement[1], version: requirement[2], dev: false });
+    }
+  }
+
+  return dependencies;
+}
+
+// The go directive: the language version the module is written for
+function goModRuntimes(text: string): Runtime[] {
+  const version = text.match(/^go\s+(\d+\.\d+(\.\d+)?)\s*$/m)?.[1];
+  return version ? [{ name: 'Go', version }] : [];
+}
+
+function parseCsproj(text: string): Dependency[] {
+  return [...text.matchAll(/<PackageReference\s+Include="([^"]+)"(?:\s+Version="([^"]+)")?/g)].map(([, name, version]) => ({
+    name,
+    version: version ?? null,
+    dev: /(test|xunit|nunit|mstest|moq|coverlet)/i.test(name),
+  }));
+}
+
+// SDK-style projects name target frameworks such as net8.0 or netcoreapp3.1;
+// older projects a .NET Framework version such as v4.7.2
+function csprojRuntimes(text: string): Runtime[] {
+  const targets = text.match(/<TargetFrameworks?>([^<]+)<\/TargetFrameworks?>/)?.[1];
+  if (targets) {
+    return targets
+      .split(';')
+      .map(target => target.trim())
+      .filter(target => target && !target.startsWith('netstandard'))
+      .map(target => ({ name: /^net\d{2,3}$/.test(target) ? '.NET Framework' : '.NET', version: target }));
+  }
+
+  const legacy = text.match(/<TargetFrameworkVersion>([^<]+)<\/TargetFrameworkVersion>/)?.[1];
+  return legacy ? [{ name: '.NET Framework', version: legacy.trim() }] : [];
+}
+
+const noRuntimes = (): Runtime[] => [];
+
+const MANIFEST_TYPES: [RegExp, Ecosystem, (text: string, path: string) => Dependency[], (text: string) => Runtime[]][] = [
+  [/(^|\/)package\.json$/, 'npm', parsePackageJson, packageJsonRuntimes],
+  [/(^|\/)requirements([-_.][\w-]+)?\.txt$/, 'pypi', parseRequirementsTxt, noRuntimes],
+  [/(^|\/)pyproject\.toml$/, 'pypi', parsePyproject, pyprojectRuntimes],
+  [/(^|\/)Gemfile$/, 'rubygems', parseGemfile, gemfileRuntimes],
+  [/(^|\/)go\.mod$/, 'go', parseGoMod, goModRuntimes],
+  [/(^|\/)composer\.json$/, 'composer', parseComposerJson, composerJsonRuntimes],
+  [/\.csproj$/, 'nuget', parseCsproj, csprojRuntimes],
+];
+
+/**
+ * Paths of the manifests worth reading, shallowest first
+ */
+export function findManifests(entries: TreeEntry[]): string[] {
+  return entries
+    .filter(entry => entry.type === 'blob' && !IGNORED_DIRS.test(entry.path))
+    .filter(entry => entry.path.split('/').length <= MAX_DEPTH)
+    .filter(entry => MANIFEST_TYPES.some(([pattern]) => pattern.test(entry.path)))
+    .map(entry => entry.path)
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .slice(0, MAX_MANIFESTS);
+}
+
+/**
+ * Parse a manifest by its file name; null for files that are not manifests
+ */
+export function parseManifest(path: string, text: string): Manifest | null {
+  const type = MANIFEST_TYPES.find(([pattern]) => pattern.test(path));
+  if (!type) return null;
+
+  const [, ecosystem, parse, runtimes] = type;
+  return { path, ecosystem, dependencies: parse(text, path), runtimes: runtimes(text) };
+}
+
+/**
+ * Fetch and parse a repository's manifests
+ */
+export async function readManifests(owner: string, name: string, ref: string, entries: TreeEntry[]): Promise<Manifest[]> {
+  const paths = findManifests(entries);
+  const texts = await Promise.all(paths.map(path => fetchFileText(owner, name, path, ref)));
+
+  return paths.flatMap((path, idx) => {
+    const text = texts[idx];
+    const manifest = text === null ? null : parseManifest(path, text);
+    return manifest ? [manifest] : [];
+  });
+}
@@ -0,0 +1,773 @@
+import { unzipSync, strFromU8 } from 'fflate';
+
+/**
+ * Text extraction for word-processor formats (DOCX, ODT, RTF).
+ *
+ * Each extractor emits lightweight markdown so the structure survives
+ * `cleanText`: headings become `#` lines, list items keep their bullet or
+ * number, and table rows are rendered as `| cell | cell |` lines.
+ */
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: (XmlNode | string)[];
+}
+
+// A rendered block of output. Consecutive blocks of the same group (items of
+// one list, rows of one table) are joined with a single line break instead of
+// a blank line.
+interface Block {
+  text: string;
+  group: 'list' | 'table' | null;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Minimal XML parser - enough for the well-formed documents produced by
+ * word processors. Namespaced names are kept as-is (e.g. `w:p`).
+ */
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: '#root', attrs: {}, children: [] };
+  const stack: XmlNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const [, cdata, closing, name, rawAttrs, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (text !== undefined) {
+      parent.children.push(decodeEntities(text));
+    } else if (name && closing) {
+      const openIndex = stack.map(node => node.name).lastIndexOf(name);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+    } else if (name) {
+      const node: XmlNode = { name, attrs: parseAttributes(rawAttrs), children: [] };
+      parent.children.push(node);
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    }
+  }
+
+  return root;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrPattern.exec(raw)) !== null) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+}
+
+function elements(node: XmlNode): XmlNode[] {
+  return node.children.filter((child): child is XmlNode => typeof child !== 'string');
+}
+
+function findFirst(node: XmlNode, name: string): XmlNode | null {
+  for (const child of elements(node)) {
+    if (child.name === name) return child;
+    const nested = findFirst(child, name);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function findAll(node: XmlNode, name: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const child of elements(node)) {
+    if (child.name === name) {
+      found.push(child);
+    } else {
+      found.push(...findAll(child, name));
+    }
+  }
+  return found;
+}
+
+function joinBlocks(blocks: Block[]): string {
+  let output = '';
+  blocks.forEach((block, idx) => {
+    if (idx > 0) {
+      output += block.group && block.group === blocks[idx - 1].group ? '\n' : '\n\n';
+    }
+    output += block.text;
+  });
+  return output;
+}
+
+function renderTable(rows: string[][]): Block[] {
+  const nonEmpty = rows.filter(cells => cells.some(cell => cell.length > 0));
+  if (nonEmpty.length === 0) return [];
+
+  const width = Math.max(...nonEmpty.map(cells => cells.length));
+  const toLine = (cells: string[]) => {
+    const padded = [...cells, ...Array(width - cells.length).fill('')];
+    return `| ${padded.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  };
+
+  const lines = [toLine(nonEmpty[0]), `| ${Array(width).fill('---').join(' | ')} |`];
+  for (const cells of nonEmpty.slice(1)) {
+    lines.push(toLine(cells));
+  }
+
+  return lines.map(text => ({ text, group: 'table' as const }));
+}
+
+function readZipEntry(files: Record<string, Uint8Array>, path: string): string | null {
+  const entry = files[path];
+  return entry ? strFromU8(entry) : null;
+}
+
+function unzip(data: Uint8Array): Record<string, Uint8Array> {
+  try {
+    return unzipSync(data);
+  } catch {
+    throw new Error('Document archive is corrupted or not a valid file');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DOCX (Office Open XML)
+// ---------------------------------------------------------------------------
+
+interface DocxContext {
+  headingLevels: Map<string, number>;
+  listFormats: Map<string, Map<number, string>>;
+  listCounters: Map<string, number[]>;
+}
+
+/**
+ * Map paragraph style IDs to heading levels using styles.xml. Style IDs are
+ * localized ("Titre1", "Kop1"), so we go by style name and outline level.
+ */
+function readDocxHeadingLevels(stylesXml: string | null): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  for (const style of findAll(parseXml(stylesXml), 'w:style')) {
+    const styleId = style.attrs['w:styleId'];
+    if (!styleId) continue;
+
+    const name = findFirst(style, 'w:name')?.attrs['w:val']?.toLowerCase() || '';
+    const outline = findFirst(style, 'w:outlineLvl')?.attrs['w:val'];
+    const headingMatch = name.match(/^heading\s*(\d)$/);
+
+    if (headingMatch) {
+      levels.set(styleId, Number(headingMatch[1]));
+    } else if (name === 'title') {
+      levels.set(styleId, 1);
+    } else if (outline !== undefined && Number(outline) < 9) {
+      levels.set(styleId, Number(outline) + 1);
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * Resolve numbering definitions to a numFmt per (numId, level), so we can
+ * tell bulleted lists from numbered ones.
+ */
+function readDocxListFormats(numberingXml: string | null): Map<string, Map<number, string>> {
+  const formats = new Map<string, Map<number, string>>();
+  if (!numberingXml) return formats;
+
+  const root = parseXml(numberingXml);
+  const abstractFormats = new Map<string, Map<number, string>>();
+
+  for (const abstractNum of findAll(root, 'w:abstractNum')) {
+    const levels = new Map<number, string>();
+    for (const lvl of findAll(abstractNum, 'w:lvl')) {
+      const format = findFirst(lvl, 'w:numFmt')?.attrs['w:val'] || 'decimal';
+      levels.set(Number(lvl.attrs['w:ilvl'] || 0), format);
+    }
+    abstractFormats.set(abstractNum.attrs['w:abstractNumId'], levels);
+  }
+
+  for (const num of findAll(root, 'w:num')) {
+    const abstractId = findFirst(num, 'w:abstractNumId')?.attrs['w:val'];
+    const levels = abstractId !== undefined ? abstractFormats.get(abstractId) : undefined;
+    if (levels) {
+      formats.set(num.attrs['w:numId'], levels);
+    }
+  }
+
+  return formats;
+}
+
+function docxRunText(node: XmlNode): string {
+  let text = '';
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+
+    switch (child.name) {
+      case 'w:t':
+        text += child.children.filter(c => typeof c === 'string').join('');
+        break;
+      case 'w:tab':
+        text += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        text += '\n';
+        break;
+      case 'w:noBreakHyphen':
+        text += '-';
+        break;
+      // Properties, deleted text and field instructions are not content
+      case 'w:pPr':
+      case 'w:rPr':
+      case 'w:del':
+      case 'w:delText':
+      case 'w:instrText':
+        break;
+      default:
+        text += docxRunText(child);
+    }
+  }
+  return text;
+}
+
+function docxListPrefix(paragraphProps: XmlNode | null, context: DocxContext): string | null {
+  const numPr = paragraphProps ? findFirst(paragraphProps, 'w:numPr') : null;
+  const numId = numPr ? findFirst(numPr, 'w:numId')?.attrs['w:val'] : undefined;
+  // numId 0 explicitly removes numbering inherited from the style
+  if (!numPr || !numId || numId === '0') return null;
+
+  const level = Number(findFirst(numPr, 'w:ilvl')?.attrs['w:val'] || 0);
+  const format = context.listFormats.get(numId)?.get(level) || 'bullet';
+  const indent = '  '.repeat(level);
+
+  if (format === 'bullet' || format === 'none') {
+    return `${indent}- `;
+  }
+
+  const counters = context.listCounters.get(numId) || [];
+  counters[level] = (counters[level] || 0) + 1;
+  counters.length = level + 1;
+  context.listCounters.set(numId, counters);
+
+  return `${indent}${counters[level]}. `;
+}
+
+function docxParagraph(paragraph: XmlNode, context: DocxContext): Block | null {
+  const text = docxRunText(paragraph).trim();
+  if (!text) return null;
+
+  const props = findFirst(paragraph, 'w:pPr');
+  const styleId = props ? findFirst(props, 'w:pStyle')?.attrs['w:val'] : undefined;
+  const outline = props ? findFirst(props, 'w:outlineLvl')?.attrs['w:val'] : undefined;
+  const headingLevel = (styleId && context.headingLevels.get(styleId))
+    || (outline !== undefined && Number(outline) < 9 ? Number(outline) + 1 : 0);
+
+  if (headingLevel) {
+    return { text: `${'#'.repeat(Math.min(headingLevel, 6))} ${text.replace(/\s+/g, ' ')}`, group: null };
+  }
+
+  const listPrefix = docxListPrefix(props, context);
+  if (listPrefix) {
+    return { text: listPrefix + text.replace(/\n+/g, ' '), group: 'list' };
+  }
+
+  return { text, group: null };
+}
+
+function docxTableRows(table: XmlNode, context: DocxContext): string[][] {
+  return elements(table)
+    .filter(row => row.name === 'w:tr')
+    .map(row =>
+      elements(row)
+        .filter(cell => cell.name === 'w:tc')
+        .map(cell =>
+          docxBlocks(cell, context)
+            .map(block => block.text.replace(/^#+\s*/, ''))
+            .join(' ')
+            .replace(/\s+/g, ' ')
+            .trim()
+        )
+    );
+}
+
+function docxBlocks(container: XmlNode, context: DocxContext): Block[] {
+  const blocks: Block[] = [];
+
+  for (const child of elements(container)) {
+    if (child.name === 'w:p') {
+      const block = docxParagraph(child, context);
+      if (block) blocks.push(block);
+    } else if (child.name === 'w:tbl') {
+      blocks.push(...renderTable(docxTableRows(child, context)));
+    } else if (child.name === 'w:sdt' || child.name === 'w:sdtContent' || child.name === 'w:customXml') {
+      blocks.push(...docxBlocks(child, context));
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Extract text from a DOCX file as lightweight markdown
+ */
+export function extractDocxText(data: Uint8Array): string {
+  const files = unzip(data);
+  const documentXml = readZipEntry(files, 'word/document.xml');
+
+  if (!documentXml) {
+    throw new Error('Document body (word/document.xml) is missing');
+  }
+
+  const body = findFirst(parseXml(documentXml), 'w:body');
+  if (!body) return '';
+
+  const context: DocxContext = {
+    headingLevels: readDocxHeadingLevels(readZipEntry(files, 'word/styles.xml')),
+    listFormats: readDocxListFormats(readZipEntry(files, 'word/numbering.xml')),
+    listCounters: new Map(),
+  };
+
+  return joinBlocks(docxBlocks(body, context));
+}
+
+// ---------------------------------------------------------------------------
+// ODT (OpenDocument Text)
+// ---------------------------------------------------------------------------
+
+/**
+ * Collect list style names whose first level is numbered rather than bulleted
+ */
+function readOdtNumberedListStyles(...xmlSources: (string | null)[]): Set<string> {
+  const numbered = new Set<string>();
+
+  for (const xml of xmlSources) {
+    if (!xml) continue;
+    for (const listStyle of findAll(parseXml(xml), 'text:list-style')) {
+      const first = elements(listStyle)[0];
+      if (first?.name === 'text:list-level-style-number') {
+        numbered.add(listStyle.attrs['style:name']);
+      }
+    }
+  }
+
+  return numbered;
+}
+
+function odtInlineText(node: XmlNode): string {
+  let text = '';
+  for (const child of node.children) {
+    if (typeof child === 'string') {
+      text += child.replace(/\s+/g, ' ');
+      continue;
+    }
+
+    switch (child.name) {
+      case 'text:s':
+        text += ' '.repeat(Number(child.attrs['text:c'] || 1));
+        break;
+      case 'text:tab':
+        text += '\t';
+        break;
+      case 'text:line-break':
+        text += '\n';
+        break;
+      // Footnotes, comments and change-tracking metadata are not body text
+      case 'text:note':
+      case 'office:annotation':
+      case 'text:tracked-changes':
+        break;
+      default:
+        text += odtInlineText(child);
+    }
+  }
+  return text;
+}
+
+function odtListBlocks(
+  list: XmlNode,
+  numberedStyles: Set<string>,
+  depth: number,
+  inheritedStyle: string | undefined
+): Block[] {
+  const styleName = list.attrs['text:style-name'] || inheritedStyle;
+  const numbered = styleName ? numberedStyles.has(styleName) : false;
+  const indent = '  '.repeat(depth);
+  const blocks: Block[] = [];
+  let counter = 0;
+
+  for (const item of elements(list)) {
+    if (item.name !== 'text:list-item' && item.name !== 'text:list-header') continue;
+
+    let markerUsed = false;
+    for (const child of elements(item)) {
+      if (child.name === 'text:list') {
+        blocks.push(...odtListBlocks(child, numberedStyles, depth + 1, styleName));
+        continue;
+      }
+
+      const text = odtInlineText(child).replace(/\s+/g, ' ').trim();
+      if (!text) continue;
+
+      if (!markerUsed && item.name === 'text:list-item') {
+        counter += 1;
+        blocks.push({ text: `${indent}${numbered ? `${counter}.` : '-'} ${text}`, group: 'list' });
+        markerUsed = true;
+      } else {
+        blocks.push({ text: `${indent}  ${text}`, group: 'list' });
+      }
+    }
+  }
+
+  return blocks;
+}
+
+function odtTableRows(table: XmlNode, numberedStyles: Set<string>): string[][] {
+  const rows: string[][] = [];
+
+  for (const child of elements(table)) {
+    if (child.name === 'table:table-header-rows' || child.name === 'table:table-rows') {
+      rows.push(...odtTableRows(child, numberedStyles));
+    } else if (child.name === 'table:table-row') {
+      rows.push(
+        elements(child)
+          .filter(cell => cell.name === 'table:table-cell')
+          .map(cell =>
+            odtBlocks(cell, numberedStyles)
+              .map(block => block.text.replace(/^#+\s*/, ''))
+              .join(' ')
+              .replace(/\s+/g, ' ')
+              .trim()
+          )
+      );
+    }
+  }
+
+  return rows;
+}
+
+function odtBlocks(container: XmlNode, numberedStyles: Set<string>): Block[] {
+  const blocks: Block[] = [];
+
+  for (const child of elements(container)) {
+    switch (child.name) {
+      case 'text:h': {
+        const text = odtInlineText(child).replace(/\s+/g, ' ').trim();
+        const level = Math.min(Number(child.attrs['text:outline-level'] || 1), 6);
+        if (text) blocks.push({ text: `${'#'.repeat(level)} ${text}`, group: null });
+        break;
+      }
+      case 'text:p': {
+        const text = odtInlineText(child).trim();
+        if (text) blocks.push({ text, group: null });
+        break;
+      }
+      case 'text:list':
+        blocks.push(...odtListBlocks(child, numberedStyles, 0, undefined));
+        break;
+      case 'table:table':
+        blocks.push(...renderTable(odtTableRows(child, numberedStyles)));
+        break;
+      case 'text:section':
+      case 'text:soft-page-break':
+        blocks.push(...odtBlocks(child, numberedStyles));
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Extract text from an ODT file as lightweight markdown
+ */
+export function extractOdtText(data: Uint8Array): string {
+  const files = unzip(data);
+  const contentXml = readZipEntry(files, 'content.xml');
+
+  if (!contentXml) {
+    throw new Error('Document body (content.xml) is missing');
+  }
+
+  const body = findFirst(parseXml(contentXml), 'office:text');
+  if (!body) return '';
+
+  const numberedStyles = readOdtNumberedListStyles(contentXml, readZipEntry(files, 'styles.xml'));
+  return joinBlocks(odtBlocks(body, numberedStyles));
+}
+
+// ---------------------------------------------------------------------------
+// RTF
+// ---------------------------------------------------------------------------
+
+// Destinations whose content is metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'fldinst', 'pgdsctbl', 'mmathPr',
+]);
+
+// Destinations holding the rendered list marker ("1.", bullet glyph)
+const RTF_LIST_MARKER_DESTINATIONS = new Set(['listtext', 'pntext']);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  tab: '\t',
+  line: '\n',
+};
+
+interface RtfGroup {
+  skip: boolean;
+  marker: boolean;
+  unicodeSkip: number;
+}
+
+/**
+ * Extract text from an RTF document as lightweight markdown
+ */
+export function extractRtfText(rtf: string): string {
+  if (!rtf.trimStart().startsWith('{\\rtf')) {
+    throw new Error('File is not a valid RTF document');
+  }
+
+  const decoder = new TextDecoder('windows-1252');
+  const blocks: Block[] = [];
+  const groups: RtfGroup[] = [{ skip: false, marker: false, unicodeSkip: 1 }];
+
+  let paragraph = '';
+  let marker = '';
+  let outlineLevel = -1;
+  let inTable = false;
+  let cells: string[] = [];
+  let tableRows: string[][] = [];
+  let pendingSkip = 0;
+  let expectDestination = false;
+
+  const current = () => groups[groups.length - 1];
+
+  const emit = (text: string) => {
+    const group = current();
+    if (group.skip) return;
+    if (pendingSkip > 0) {
+      pendingSkip -= 1;
+      return;
+    }
+    if (group.marker) {
+      marker += text;
+    } else {
+      paragraph += text;
+    }
+  };
+
+  const flushTable = () => {
+    if (tableRows.length > 0) {
+      blocks.push(...renderTable(tableRows));
+      tableRows = [];
+    }
+  };
+
+  const endParagraph = () => {
+    // Paragraph breaks inside a table cell only separate lines of the cell
+    if (inTable) {
+      paragraph += ' ';
+      return;
+    }
+
+    const text = paragraph.trim();
+    const listMarker = marker.replace(/\t/g, '').trim();
+    paragraph = '';
+    marker = '';
+
+    flushTable();
+    if (!text) return;
+
+    if (outlineLevel >= 0) {
+      blocks.push({ text: `${'#'.repeat(Math.min(outlineLevel + 1, 6))} ${text.replace(/\s+/g, ' ')}`, group: null });
+    } else if (listMarker) {
+      const prefix = /^[\w]+[.)]$/.test(listMarker) ? listMarker : '-';
+      blocks.push({ text: `${prefix} ${text.replace(/\s+/g, ' ')}`, group: 'list' });
+    } else {
+      blocks.push({ text, group: null });
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      groups.push({ ...current() });
+      expectDestination = true;
+      i += 1;
+      continue;
+    }
+
+    if (char === '}') {
+      if (groups.length > 1) groups.pop();
+      expectDestination = false;
+      i += 1;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i += 1;
+      continue;
+    }
+
+    if (char !== '\\') {
+      expectDestination = false;
+      emit(char);
+      i += 1;
+      continue;
+    }
+
+    // Control symbols
+    const next = rtf[i + 1];
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+    if (next === '_') {
+      emit('-');
+      i += 2;
+      continue;
+    }
+    if (next === '-') {
+      i += 2;
+      continue;
+    }
+    if (next === '*') {
+      // Ignorable destination: skip unless we recognise it as a list marker
+      const word = rtf.slice(i + 2).match(/^\\([a-zA-Z]+)/)?.[1];
+      if (!word || !RTF_LIST_MARKER_DESTINATIONS.has(word)) {
+        current().skip = true;
+      }
+      i += 2;
+      continue;
+    }
+    if (next === "'") {
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+      if (!Number.isNaN(byte)) {
+        emit(decoder.decode(new Uint8Array([byte])));
+      }
+      i += 4;
+      continue;
+    }
+    if (next === '\r' || next === '\n') {
+      endParagraph();
+      i += 2;
+      continue;
+    }
+
+    // Control words: \word[-]N followed by an optional delimiting space
+    const controlMatch = rtf.slice(i).match(/^\\([a-zA-Z]+)(-?\d+)? ?/);
+    if (!controlMatch) {
+      i += 2;
+      continue;
+    }
+
+    const [token, word, param] = controlMatch;
+    const value = param !== undefined ? Number(param) : undefined;
+    const isDestination = expectDestination;
+    expectDestination = false;
+    i += token.length;
+
+    if (isDestination && RTF_SKIPPED_DESTINATIONS.has(word)) {
+      current().skip = true;
+      continue;
+    }
+    if (isDestination && RTF_LIST_MARKER_DESTINATIONS.has(word)) {
+      current().marker = true;
+      current().skip = false;
+      continue;
+    }
+
+    switch (word) {
+      case 'par':
+      case 'sect':
+      case 'page':
+        if (!current().skip) endParagraph();
+        break;
+      case 'pard':
+        outlineLevel = -1;
+        inTable = false;
+        break;
+      case 'outlinelevel':
+        outlineLevel = value ?? -1;
+        break;
+      case 'intbl':
+        inTable = true;
+        break;
+      case 'cell':
+        if (!current().skip) {
+          cells.push(paragraph.replace(/\s+/g, ' ').trim());
+          paragraph = '';
+          marker = '';
+        }
+        break;
+      case 'row':
+        if (!current().skip) {
+          tableRows.push(cells);
+          cells = [];
+          inTable = false;
+        }
+        break;
+      case 'uc':
+        current().unicodeSkip = value ?? 1;
+        break;
+      case 'u':
+        if (value !== undefined) {
+          emit(String.fromCharCode(value < 0 ? value + 65536 : value));
+          pendingSkip = current().unicodeSkip;
+        }
+        break;
+      default:
+        if (word in RTF_SYMBOLS) {
+          emit(RTF_SYMBOLS[word]);
+        }
+    }
+  }
+
+  endParagraph();
+  flushTable();
+
+  return joinBlocks(blocks);
+}
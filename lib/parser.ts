@@ -1,23 +1,46 @@
 import { extractText } from 'unpdf';
+import { extractDocxText, extractOdtText, extractRtfText } from './office';
+
+// File types accepted for upload
+export const SUPPORTED_EXTENSIONS = ['pdf', 'docx', 'odt', 'rtf', 'txt', 'md'];
+
+// Parsed file content. Paginated formats (PDF) also report where each page
+// starts in the text, so requirements can be cited by page.
+export interface ParsedDocument {
+  content: string;
+  pageStarts: number[] | null;
+}
 
 /**
- * Parse PDF file and extract text content
+ * Parse PDF file and extract text content, keeping page boundaries
  */
-export async function parsePDF(file: File): Promise<string> {
+export async function parsePDF(file: File): Promise<ParsedDocument> {
   try {
     // Convert File to ArrayBuffer
     const arrayBuffer = await file.arrayBuffer();
 
-    // Extract text using unpdf
-    const { text } = await extractText(new Uint8Array(arrayBuffer), {
-      mergePages: true,
+    // Extract text per page using unpdf
+    const { text: pages } = await extractText(new Uint8Array(arrayBuffer), {
+      mergePages: false,
     });
 
-    if (!text || text.trim().length === 0) {
+    // Clean pages individually so the recorded offsets stay exact
+    let content = '';
+    const pageStarts: number[] = [];
+    for (const page of pages) {
+      const cleaned = cleanText(page);
+      if (cleaned && content) {
+        content += '\n\n';
+      }
+      pageStarts.push(content.length);
+      content += cleaned;
+    }
+
+    if (content.length === 0) {
       throw new Error('PDF appears to be empty or text could not be extracted');
     }
 
-    return cleanText(text);
+    return { content, pageStarts };
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to parse PDF: ${error.message}`);
@@ -26,6 +49,69 @@ export async function parsePDF(file: File): Promise<string> {
   }
 }
 
+/**
+ * Parse Word (DOCX) documents, keeping headings, lists and tables
+ */
+export async function parseDOCX(file: File): Promise<string> {
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    const text = extractDocxText(new Uint8Array(arrayBuffer));
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('Document appears to be empty');
+    }
+
+    return cleanText(text);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse DOCX: ${error.message}`);
+    }
+    throw new Error('Failed to parse DOCX: Unknown error');
+  }
+}
+
+/**
+ * Parse OpenDocument Text (ODT) documents, keeping headings, lists and tables
+ */
+export async function parseODT(file: File): Promise<string> {
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    const text = extractOdtText(new Uint8Array(arrayBuffer));
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('Document appears to be empty');
+    }
+
+    return cleanText(text);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse ODT: ${error.message}`);
+    }
+    throw new Error('Failed to parse ODT: Unknown error');
+  }
+}
+
+/**
+ * Parse Rich Text Format (RTF) documents
+ */
+export async function parseRTF(file: File): Promise<string> {
+  try {
+    // RTF is 7-bit ASCII; non-ASCII characters are escaped in the markup
+    const text = extractRtfText(await file.text());
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('Document appears to be empty');
+    }
+
+    return cleanText(text);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse RTF: ${error.message}`);
+    }
+    throw new Error('Failed to parse RTF: Unknown error');
+  }
+}
+
 /**
  * Parse text-based files (TXT, MD)
  */
@@ -88,15 +174,21 @@ export function getFileExtension(filename: string): string {
 /**
  * Main parser function - routes to appropriate parser based on file type
  */
-export async function parseFile(file: File): Promise<string> {
+export async function parseFile(file: File): Promise<ParsedDocument> {
   const extension = getFileExtension(file.name);
 
   switch (extension) {
     case 'pdf':
       return parsePDF(file);
+    case 'docx':
+      return { content: await parseDOCX(file), pageStarts: null };
+    case 'odt':
+      return { content: await parseODT(file), pageStarts: null };
+    case 'rtf':
+      return { content: await parseRTF(file), pageStarts: null };
     case 'txt':
     case 'md':
-      return parseTextFile(file);
+      return { content: await parseTextFile(file), pageStarts: null };
     default:
       throw new Error(`Unsupported file type: ${extension}`);
   }
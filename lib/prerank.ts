@@ -0,0 +1,90 @@
+import { SOWAnalysis } from './types';
+import { bm25Scores, tokenize } from './bm25';
+import { stripPlaceholders } from './redaction';
+
+/**
+ * Local pre-ranking of GitHub search candidates, so the LLM coverage budget
+ * goes to the repos whose text best matches the SOW rather than the most
+ * starred ones
+ */
+
+// Text of a candidate that the pre-ranking looks at
+export interface CandidateText {
+  name: string;
+  description: string | null;
+  topics: string[];
+  readme: string; // Excerpt
+  foundForDeliverables: string[];
+}
+
+// Field weights, applied by repeating the field's terms
+const FIELD_WEIGHTS = { name: 3, topics: 2, description: 2, readme: 1 };
+
+function candidateTerms(candidate: CandidateText): string[] {
+  const repeat = (terms: string[], times: number) => Array.from({ length: times }, () => terms).flat();
+
+  return [
+    ...repeat(tokenize(candidate.name), FIELD_WEIGHTS.name),
+    ...repeat(candidate.topics.flatMap(tokenize), FIELD_WEIGHTS.topics),
+    ...repeat(tokenize(candidate.description || ''), FIELD_WEIGHTS.description),
+    ...repeat(tokenize(candidate.readme), FIELD_WEIGHTS.readme),
+  ];
+}
+
+// Terms of the requirements the whole project is matched against
+function projectTerms(analysis: SOWAnalysis): string[] {
+  return tokenize(
+    stripPlaceholders(
+      [
+        analysis.projectType,
+        ...analysis.deliverables.map(item => item.text),
+        ...analysis.technicalRequirements.map(item => item.text),
+        ...analysis.integrations.map(item => item.text),
+      ].join('\n')
+    )
+  );
+}
+
+/**
+ * Choose up to `limit` candidates, best first. The best match for each
+ * deliverable among the repos its own query returned keeps a place, so
+ * component libraries are not crowded out by whole-project matches; the
+ * remaining places go to the best matches for the whole SOW. Returns the
+ * indexes of the chosen candidates with their scores.
+ */
+export function preRankCandidates(
+  candidates: CandidateText[],
+  analysis: SOWAnalysis,
+  limit: number
+): { index: number; score: number }[] {
+  const documents = candidates.map(candidateTerms);
+  const scores = bm25Scores(documents, projectTerms(analysis));
+  const chosen = new Set<number>();
+
+  for (const deliverable of analysis.deliverables) {
+    if (chosen.size >= limit) break;
+
+    const pool = candidates
+      .map((candidate, index) => index)
+      .filter(index => candidates[index].foundForDeliverables.includes(deliverable.id) && !chosen.has(index));
+    if (pool.length === 0) continue;
+
+    const deliverableScores = bm25Scores(pool.map(index => documents[index]), tokenize(stripPlaceholders(deliverable.text)));
+    const best = deliverableScores.indexOf(Math.max(...deliverableScores));
+    if (deliverableScores[best] > 0) chosen.add(pool[best]);
+  }
+
+  // Ties keep GitHub's interleaved order
+  const byScore = candidates
+    .map((candidate, index) => index)
+    .sort((a, b) => scores[b] - scores[a] || a - b);
+
+  for (const index of byScore) {
+    if (chosen.size >= limit) break;
+    chosen.add(index);
+  }
+
+  return [...chosen]
+    .map(index => ({ index, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+}
@@ -0,0 +1,168 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * LLM provider layer. Each task (SOW analysis, search planning, coverage
+ * estimates, repository detail) is routed to a provider chosen by environment configuration:
+ *
+ *   LLM_PROVIDER=anthropic|openai      provider for all tasks (default anthropic)
+ *   LLM_MODEL, LLM_BASE_URL, LLM_API_KEY
+ *   LLM_ANALYSIS_PROVIDER, LLM_COVERAGE_MODEL, ...   per-task overrides
+ *   LLM_LOCAL_ONLY=true                refuse any provider outside the network
+ *
+ * "openai" covers any OpenAI-compatible chat completions endpoint, such as a
+ * local Ollama (http://localhost:11434/v1) or llama.cpp server.
+ */
+
+export type LLMTask = 'analysis' | 'planning' | 'coverage' | 'detail';
+
+export type ProviderName = 'anthropic' | 'openai';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface Completion {
+  text: string;
+  truncated: boolean; // Stopped at the token limit
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  complete: (messages: ChatMessage[], options: { maxTokens: number }) => Promise<Completion>;
+}
+
+interface ProviderConfig {
+  provider: ProviderName;
+  model: string | undefined;
+  baseUrl: string | undefined;
+  apiKey: string | undefined;
+}
+
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-20241022';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Hosts considered inside the network when LLM_LOCAL_ONLY is set
+const PRIVATE_HOST_PATTERN = /^(localhost|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|\[::1\]|[a-z0-9-]+|.+\.(local|internal|lan|home\.arpa))$/i;
+
+export function createAnthropicProvider({ model, apiKey }: ProviderConfig): LLMProvider {
+  const client = new Anthropic({
+    apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
+  });
+  const resolvedModel = model || DEFAULT_ANTHROPIC_MODEL;
+
+  return {
+    name: 'anthropic',
+    model: resolvedModel,
+    complete: async (messages, { maxTokens }) => {
+      const message = await client.messages.create({
+        model: resolvedModel,
+        max_tokens: maxTokens,
+        messages,
+      });
+
+      return {
+        text: message.content[0]?.type === 'text' ? message.content[0].text : '',
+        truncated: message.stop_reason === 'max_tokens',
+      };
+    },
+  };
+}
+
+export function createOpenAICompatibleProvider({ model, baseUrl, apiKey }: ProviderConfig): LLMProvider {
+  if (!model) {
+    throw new Error('LLM_MODEL must be set when using an OpenAI-compatible provider');
+  }
+
+  const endpoint = `${(baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model,
+    complete: async (messages, { maxTokens }) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          messages,
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`LLM request failed (${response.status}): ${detail.slice(0, 200)}`);
+      }
+
+      const data = await response.json();
+      const choice = data.choices?.[0];
+
+      return {
+        text: typeof choice?.message?.content === 'string' ? choice.message.content : '',
+        truncated: choice?.finish_reason === 'length',
+      };
+    },
+  };
+}
+
+// The global setting is only a fallback for tasks on the global provider:
+// an Ollama model name or base URL means nothing to Anthropic
+function setting(task: LLMTask, name: string, inherit = true): string | undefined {
+  return process.env[`LLM_${task.toUpperCase()}_${name}`] || (inherit ? process.env[`LLM_${name}`] : undefined) || undefined;
+}
+
+function readConfig(task: LLMTask): ProviderConfig {
+  const provider = setting(task, 'PROVIDER') || 'anthropic';
+  if (provider !== 'anthropic' && provider !== 'openai') {
+    throw new Error(`Unknown LLM provider "${provider}" for ${task} - use "anthropic" or "openai"`);
+  }
+  const inherit = provider === (process.env.LLM_PROVIDER || 'anthropic');
+
+  return {
+    provider,
+    model: setting(task, 'MODEL', inherit),
+    baseUrl: setting(task, 'BASE_URL', inherit),
+    apiKey: setting(task, 'API_KEY', inherit) || (provider === 'openai' ? process.env.OPENAI_API_KEY : undefined),
+  };
+}
+
+/**
+ * Refuse configurations that would send text outside the network
+ */
+function assertLocal(task: LLMTask, config: ProviderConfig) {
+  if (process.env.LLM_LOCAL_ONLY !== 'true') return;
+
+  const host = config.provider === 'openai' && config.baseUrl
+    ? new URL(config.baseUrl).hostname
+    : null;
+
+  if (!host || !PRIVATE_HOST_PATTERN.test(host)) {
+    throw new Error(`LLM_LOCAL_ONLY is set, but the ${task} task is configured for an external provider`);
+  }
+}
+
+const providers = new Map<LLMTask, LLMProvider>();
+
+/**
+ * Provider configured for a task. Providers are created on first use, so a
+ * misconfiguration surfaces as an error from the request that needs it.
+ */
+export function getProvider(task: LLMTask): LLMProvider {
+  const cached = providers.get(task);
+  if (cached) return cached;
+
+  const config = readConfig(task);
+  assertLocal(task, config);
+
+  const provider = config.provider === 'openai'
+    ? createOpenAICompatibleProvider(config)
+    : createAnthropicProvider(config);
+
+  providers.set(task, provider);
+  return provider;
+}
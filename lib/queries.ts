@@ -0,0 +1,233 @@
+import { Deliverable, SearchQuery, SOWAnalysis } from './types';
+import { completeJSON } from './llm';
+import { QueryPlanReplySchema } from './schemas';
+import { contextSearchTerms, formatContextForPrompt, ResolvedAnswer } from './context';
+import { stripPlaceholders } from './redaction';
+import { significantWords } from './sections';
+import { fitQuery } from './constraints';
+
+const MAX_QUERIES = 5;
+const MAX_DELIVERABLE_QUERIES = 6; // Searched separately, on top of MAX_QUERIES
+const MAX_KEYWORDS = 4; // GitHub requires every keyword to match
+
+// Qualifiers the planner may use, with the values GitHub accepts for each
+const QUALIFIERS: Record<string, RegExp> = {
+  language: /^[\w+#.-]+$/,
+  topic: /^[a-z0-9][a-z0-9-]*$/,
+  license: /^[a-z0-9][a-z0-9.-]*$/,
+  pushed: /^(>|>=)\d{4}-\d{2}-\d{2}$/,
+  archived: /^(true|false)$/,
+  fork: /^(true|false|only)$/,
+  stars: /^(>|>=)?\d+(\.\.\d+)?$/,
+};
+
+// Added to every query unless the planner chose otherwise
+const DEFAULT_QUALIFIERS = ['archived:false', 'fork:false', 'stars:>0'];
+
+/**
+ * Clean a planned query: drop qualifiers that are not whitelisted or have an
+ * invalid value, cap the number of keywords, and add the default qualifiers.
+ * Returns null when no keyword or topic is left to search for.
+ */
+export function sanitizeQuery(raw: string): string | null {
+  const tokens = stripPlaceholders(raw).match(/"[^"]*"|\S+/g) || [];
+  const keywords: string[] = [];
+  const qualifiers = new Map<string, string>();
+
+  for (const token of tokens) {
+    const qualifier = token.match(/^([a-z]+):(.+)$/i);
+    if (qualifier) {
+      const key = qualifier[1].toLowerCase();
+      const value = qualifier[2].replace(/^"|"$/g, '').toLowerCase();
+      if (QUALIFIERS[key]?.test(value) && !qualifiers.has(key)) {
+        qualifiers.set(key, `${key}:${value}`);
+      }
+    } else if (/[\w"]/.test(token) && !/^(AND|OR|NOT)$/.test(token)) {
+      keywords.push(token);
+    }
+  }
+
+  if (keywords.length === 0 && !qualifiers.has('topic')) return null;
+
+  for (const qualifier of DEFAULT_QUALIFIERS) {
+    const key = qualifier.split(':')[0];
+    if (!qualifiers.has(key)) qualifiers.set(key, qualifier);
+  }
+
+  return fitQuery(keywords.slice(0, MAX_KEYWORDS), [...qualifiers.values()]);
+}
+
+/**
+ * Keyword queries built without the LLM, used when planning fails: the main
+ * subject from project type and deliverables, narrowed by the user's context,
+ * the first technical requirement and the first integration, plus one query
+ * per deliverable
+ */
+export function buildKeywordQueries(
+  analysis: SOWAnalysis,
+  answers: ResolvedAnswer[],
+  additionalContext: string
+): SearchQuery[] {
+  const queries: SearchQuery[] = [];
+
+  // Extract key terms from project type and deliverables (placeholders for
+  // redacted client data carry no meaning for GitHub search)
+  const projectTerms = stripPlaceholders(analysis.projectType).toLowerCase().split(' ').filter((word: string) => word.length > 3);
+  const deliverableTerms = stripPlaceholders(analysis.deliverables.map(item => item.text).join(' ')).toLowerCase().split(' ').filter((word: string) => word.length > 3);
+
+  // Build main query from project type
+  const mainTerms = [...new Set([...projectTerms.slice(0, 3), ...deliverableTerms.slice(0, 2)])];
+  queries.push({ intent: 'Whole project', query: mainTerms.join(' ') });
+
+  // Narrow the main subject by the user's answers and named products,
+  // e.g. "booking self-hosted" or "booking square pos"
+  for (const term of contextSearchTerms(answers, additionalContext).slice(0, 2)) {
+    queries.push({ intent: `Your context: ${term}`, query: `${mainTerms[0]} ${term}` });
+  }
+
+  // Add tech stack if mentioned
+  if (analysis.technicalRequirements.length > 0) {
+    queries.push({
+      intent: 'Technical requirement',
+      query: `${mainTerms[0]} ${stripPlaceholders(analysis.technicalRequirements[0].text)}`,
+    });
+  }
+
+  // Add integration-based query
+  if (analysis.integrations.length > 0) {
+    queries.push({
+      intent: 'Integration',
+      query: `${mainTerms[0]} ${stripPlaceholders(analysis.integrations[0].text)}`,
+    });
+  }
+
+  return finalize(queries, analysis);
+}
+
+/**
+ * Keyword query for a single deliverable, e.g. "SMS appointment reminders"
+ * becomes "appointment reminders" searched on its own
+ */
+function deliverableKeywordQuery(deliverable: Deliverable): SearchQuery {
+  const text = stripPlaceholders(deliverable.text);
+
+  return {
+    intent: `Deliverable: ${text}`,
+    query: [...new Set(significantWords(text))].slice(0, 3).join(' '),
+    deliverable: deliverable.id,
+  };
+}
+
+/**
+ * Sanitize and de-duplicate queries, keeping at most MAX_QUERIES for the
+ * whole project and one per deliverable for the first MAX_DELIVERABLE_QUERIES
+ * deliverables. Deliverables without a usable query get a keyword query.
+ */
+function finalize(queries: SearchQuery[], analysis: SOWAnalysis): SearchQuery[] {
+  const seen = new Set<string>();
+  const projectQueries: SearchQuery[] = [];
+  const deliverableQueries = new Map<string, SearchQuery>();
+  const searched = analysis.deliverables.slice(0, MAX_DELIVERABLE_QUERIES);
+
+  const add = (query: SearchQuery) => {
+    const sanitized = sanitizeQuery(query.query);
+    if (!sanitized || seen.has(sanitized)) return;
+
+    const { deliverable } = query;
+    if (deliverable === undefined) {
+      if (projectQueries.length >= MAX_QUERIES) return;
+      projectQueries.push({ intent: query.intent, query: sanitized });
+    } else {
+      if (!searched.some(item => item.id === deliverable) || deliverableQueries.has(deliverable)) return;
+      deliverableQueries.set(deliverable, { intent: query.intent, query: sanitized, deliverable });
+    }
+    seen.add(sanitized);
+  };
+
+  queries.forEach(add);
+  for (const deliverable of searched) {
+    if (!deliverableQueries.has(deliverable.id)) add(deliverableKeywordQuery(deliverable));
+  }
+
+  return [
+    ...projectQueries,
+    ...searched.flatMap(deliverable => deliverableQueries.get(deliverable.id) ?? []),
+  ];
+}
+
+function buildPlannerPrompt(analysis: SOWAnalysis, context: string): string {
+  // Prefer repos with activity in the last two years
+  const cutoff = new Date();
+  cutoff.setFullYear(cutoff.getFullYear() - 2);
+  const pushedSince = cutoff.toISOString().slice(0, 10);
+
+  const deliverables = analysis.deliverables
+    .slice(0, MAX_DELIVERABLE_QUERIES)
+    .map(item => `  ${item.id}: ${item.text}`)
+    .join('\n');
+
+  return `You are planning GitHub repository searches to find open-source projects that could accelerate delivery of the following project.
+
+Project Requirements:
+- Type: ${analysis.projectType}
+- Deliverables:
+${deliverables}
+- Technical Requirements: ${analysis.technicalRequirements.map(item => item.text).join('; ') || 'None stated'}
+- Integrations: ${analysis.integrations.map(item => item.text).join('; ') || 'None stated'}
+${context ? `\nClient Context:\n${context}\n` : ''}
+Write 3-5 GitHub repository search queries, each serving one distinct intent: the whole project, a key deliverable that is likely a separate open-source component (e.g. a scheduler, an SMS library, an admin panel), the required tech stack, or a named integration.
+
+Then write one query for EACH listed deliverable, searching for an open-source component that delivers just that deliverable, and set "deliverable" to its ID.
+
+GitHub search syntax:
+- Every keyword must match the repo name, description or README, so use 1-3 short, common keywords (e.g. "appointment booking", not "multi-location appointment scheduling system")
+- Allowed qualifiers ONLY: language:, topic:, license:, pushed:>YYYY-MM-DD, archived:false, fork:false, stars:>N
+- language: only when the SOW or the client context names a language or framework (e.g. language:python for Django)
+- topic: lowercase hyphenated GitHub topics (e.g. topic:booking, topic:crm)
+- license: only when the client context requires a license type (e.g. license:mit for permissive)
+- Use pushed:>${pushedSince} to prefer maintained projects
+- Never include placeholders such as [ORG_1]
+
+Provide the plan in the following JSON format:
+{
+  "queries": [
+    { "intent": "Whole project", "query": "appointment booking topic:booking pushed:>${pushedSince}" },
+    { "intent": "SMS reminders", "query": "sms reminders language:javascript archived:false" },
+    { "intent": "Admin dashboard", "query": "admin dashboard topic:admin-dashboard", "deliverable": "D3" }
+  ]
+}
+
+Return ONLY valid JSON, no additional text.`;
+}
+
+/**
+ * Plan intent-specific GitHub queries with the LLM, for the whole project and
+ * for each deliverable. Planned queries are sanitized; if planning fails or
+ * yields nothing usable, the keyword queries are used instead.
+ */
+export async function planSearchQueries(
+  analysis: SOWAnalysis,
+  answers: ResolvedAnswer[],
+  additionalContext: string
+): Promise<{ queries: SearchQuery[]; planned: boolean }> {
+  try {
+    const plan = await completeJSON(
+      'planning',
+      buildPlannerPrompt(analysis, formatContextForPrompt(answers, additionalContext)),
+      QueryPlanReplySchema,
+      { maxTokens: 1024 }
+    );
+
+    const queries = finalize(
+      plan.queries.map(({ intent, query, deliverable }) => ({ intent, query, deliverable: deliverable ?? undefined })),
+      analysis
+    );
+    if (queries.some(query => query.deliverable === undefined)) {
+      return { queries, planned: true };
+    }
+  } catch (error) {
+    console.error('Query planning error:', error);
+  }
+
+  return { queries: buildKeywordQueries(analysis, answers, additionalContext), planned: false };
+}
@@ -0,0 +1,189 @@
+import {
+  DistributionModel,
+  LicenseClass,
+  LicenseCompatibility,
+  RankingFactor,
+  RankingScore,
+  RankingWeights,
+  RepoResult,
+} from './types';
+import { assessLicense, classifyLicense, LICENSE_CLASS_LABELS } from './licenses';
+import { languageFamily } from './stack';
+import { ResolvedAnswer } from './context';
+
+/**
+ * Composite ranking: each factor scores a repo from 0 to 1, and the total is
+ * the weighted average of the factors, scaled to 0-100. Every factor keeps
+ * its points and a short explanation, so the score can be shown built up.
+ */
+
+export const RANKING_FACTOR_LABELS: Record<RankingFactor, string> = {
+  fit: 'SOW fit',
+  recency: 'Recent pushes',
+  popularity: 'Stars & forks',
+  license: 'License',
+  status: 'Archived / fork',
+  language: 'Tech preference',
+};
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  fit: 5,
+  recency: 2,
+  popularity: 1,
+  license: 2,
+  status: 1,
+  language: 2,
+};
+
+const LICENSE_SCORES: Record<LicenseClass, number> = {
+  permissive: 1,
+  weakCopyleft: 0.7,
+  strongCopyleft: 0.3,
+  networkCopyleft: 0.1,
+  unknown: 0,
+};
+
+// Once the distribution model is known, compatibility with it decides the license factor
+const COMPATIBILITY_SCORES: Record<LicenseCompatibility, number> = {
+  compatible: 1,
+  review: 0.5,
+  incompatible: 0,
+};
+
+// Languages implied by frameworks and platforms users name in answers.
+// Words with an everyday meaning only count when capitalised.
+const TECH_LANGUAGES: [RegExp, string[]][] = [
+  [/\b(javascript|node(\.?js)?|react|vue|angular|svelte|next\.?js|nest\.?js)\b/i, ['JavaScript', 'TypeScript']],
+  [/\btypescript\b/i, ['TypeScript']],
+  [/\b(python|django|flask|fastapi)\b/i, ['Python']],
+  [/\b(ruby|rails)\b/i, ['Ruby']],
+  [/\b(php|laravel|symfony|wordpress|drupal)\b/i, ['PHP']],
+  [/\bjava\b/i, ['Java', 'Kotlin']],
+  [/\bSpring\b/, ['Java', 'Kotlin']],
+  [/\bkotlin\b/i, ['Kotlin']],
+  [/(\.net\b|\bc#|\basp\.net\b|\bblazor\b)/i, ['C#']],
+  [/\b(golang|Go)\b(?! live)/, ['Go']],
+  [/\bRust\b/, ['Rust']],
+  [/\b(elixir|Phoenix)\b/, ['Elixir']],
+  [/\b(Swift|iOS)\b/, ['Swift']],
+  [/\b(dart|flutter)\b/i, ['Dart']],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Languages the user asked for in their answers or free-text context, e.g.
+ * "Django" -> Python. Empty when no tech preference was given.
+ */
+export function preferredLanguages(answers: ResolvedAnswer[], additionalContext?: string | null): string[] {
+  const text = [...answers.map(({ answer }) => answer), additionalContext || ''].join('\n');
+  return [...new Set(TECH_LANGUAGES.filter(([pattern]) => pattern.test(text)).flatMap(([, languages]) => languages))];
+}
+
+function ago(days: number): string {
+  if (days < 31) return `${Math.max(0, Math.round(days))} days ago`;
+  if (days < 365) return `${Math.round(days / 30)} months ago`;
+  return `${(days / 365).toFixed(1)} years ago`;
+}
+
+type FactorScore = { value: number; detail: string } | null;
+
+interface RankingContext {
+  languages: string[];
+  distribution: DistributionModel | null;
+  now: number;
+}
+
+const FACTORS: Record<RankingFactor, (repo: RepoResult, context: RankingContext) => FactorScore> = {
+  fit: (repo) => ({
+    value: repo.coveragePercentage / 100,
+    detail: `${repo.coveragePercentage}% of deliverables`,
+  }),
+
+  // Halves with every year since the last push
+  recency: (repo, { now }) => {
+    const days = (now - new Date(repo.pushedAt).getTime()) / DAY_MS;
+    if (!Number.isFinite(days)) return { value: 0, detail: 'No push date' };
+    return { value: 0.5 ** (Math.max(0, days) / 365), detail: `Pushed ${ago(days)}` };
+  },
+
+  // Log scale: 10,000 stars or 1,000 forks score full marks
+  popularity: (repo) => ({
+    value: 0.7 * Math.min(1, Math.log10(repo.stars + 1) / 4) + 0.3 * Math.min(1, Math.log10(repo.forks + 1) / 3),
+    detail: `${repo.stars.toLocaleString()} stars, ${repo.forks.toLocaleString()} forks`,
+  }),
+
+  license: (repo, { distribution }) => {
+    if (distribution) {
+      const assessment = assessLicense(repo.license, distribution);
+      return { value: COMPATIBILITY_SCORES[assessment.compatibility], detail: assessment.reason };
+    }
+
+    const licenseClass = classifyLicense(repo.license);
+    return {
+      value: LICENSE_SCORES[licenseClass],
+      detail: repo.license ? `${repo.license} (${LICENSE_CLASS_LABELS[licenseClass].toLowerCase()})` : 'No license',
+    };
+  },
+
+  status: (repo) => {
+    if (repo.archived) return { value: 0, detail: 'Archived' };
+    if (repo.isFork) return { value: 0.3, detail: 'Fork' };
+    return { value: 1, detail: 'Original, not archived' };
+  },
+
+  // Only counts when the user stated a preference
+  language: (repo, { languages }) => {
+    if (languages.length === 0) return null;
+    if (!repo.language) return { value: 0.5, detail: 'Language not detected' };
+    if (languages.includes(repo.language)) return { value: 1, detail: `${repo.language} matches your preference` };
+    if (languages.some(language => languageFamily(language) === languageFamily(repo.language))) {
+      return { value: 0.8, detail: `${repo.language} is compatible with your preference` };
+    }
+    return { value: 0, detail: `${repo.language}, you prefer ${languages.join(' / ')}` };
+  },
+};
+
+/**
+ * Score a repo. Factors with a weight of 0, or that do not apply (no tech
+ * preference), are left out of the average.
+ */
+export function rankRepo(
+  repo: RepoResult,
+  { weights = DEFAULT_RANKING_WEIGHTS, languages = [], distribution = null, now = Date.now() }: {
+    weights?: RankingWeights;
+    languages?: string[];
+    distribution?: DistributionModel | null;
+    now?: number;
+  } = {}
+): RankingScore {
+  const scored = (Object.keys(FACTORS) as RankingFactor[])
+    .map(factor => ({ factor, weight: Math.max(0, weights[factor] ?? 0), score: FACTORS[factor](repo, { languages, distribution, now }) }))
+    .filter((entry): entry is { factor: RankingFactor; weight: number; score: NonNullable<FactorScore> } =>
+      entry.score !== null && entry.weight > 0
+    );
+
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) return { total: 0, components: [] };
+
+  const components = scored.map(({ factor, weight, score }) => ({
+    factor,
+    value: score.value,
+    weight,
+    points: (weight * score.value * 100) / totalWeight,
+    detail: score.detail,
+  }));
+
+  return {
+    total: Math.round(components.reduce((sum, component) => sum + component.points, 0)),
+    components,
+  };
+}
+
+/**
+ * Sort repos by ranking score, highest first, without modifying the input
+ */
+export function rankRepos(repos: RepoResult[], options: Parameters<typeof rankRepo>[1] = {}): RepoResult[] {
+  const scores = new Map(repos.map(repo => [repo.id, rankRepo(repo, options).total]));
+  return [...repos].sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
+}
@@ -0,0 +1,234 @@
+import { DocSection } from './types';
+import { TreeEntry, fetchFileText, fileUrl, octokit } from './github';
+import { bm25Scores, tokenize } from './bm25';
+
+/**
+ * A repository's README and top-level docs, split into sections at their
+ * headings. The fit analysis gets the sections relevant to the SOW's
+ * deliverables instead of the first few thousand characters, which are
+ * mostly badges and install steps.
+ */
+
+// Markdown files directly in docs/ or doc/; nested folders tend to be API references
+const DOCS_FILE = /^docs?\/[^/]+\.(md|mdx|markdown)$/i;
+
+const MAX_DOCS_FILES = 8;
+
+// Larger docs files are usually generated references or changelogs
+const MAX_DOCS_BYTES = 100_000;
+
+// Text kept per section; long sections are mostly code samples and tables
+const MAX_SECTION_CHARS = 1500;
+
+// Section characters given to the fit analysis
+const PROMPT_BUDGET = 8000;
+
+// Best-matching sections kept per deliverable
+const SECTIONS_PER_DELIVERABLE = 2;
+
+const INTRODUCTION = 'Introduction';
+
+// Badges, images and HTML say nothing about what the code does
+const LINKED_IMAGE = /\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g;
+const IMAGE = /!\[[^\]]*\]\([^)]*\)/g;
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+const HTML_TAG = /<\/?[a-zA-Z][^>]*>/g;
+
+const FENCE = /^\s*(```|~~~)/;
+const ATX_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+
+function cleanMarkdown(text: string): string {
+  return text
+    .replace(HTML_COMMENT, '')
+    .replace(LINKED_IMAGE, '')
+    .replace(IMAGE, '')
+    .replace(HTML_TAG, '')
+    .replace(/\r\n/g, '\n');
+}
+
+// Heading text without links, emphasis and code marks
+function headingTitle(text: string): string {
+  return text.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_`]/g, '').trim();
+}
+
+// GitHub's anchor for a heading
+function slug(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+}
+
+function clip(text: string): string {
+  return text.length > MAX_SECTION_CHARS ? `${text.slice(0, MAX_SECTION_CHARS).trimEnd()}…` : text;
+}
+
+/**
+ * Split a markdown file at its headings. Sections are numbered by the caller;
+ * the text before the first heading is the "Introduction".
+ */
+export function splitSections(path: string, markdown: string, url: string): Omit<DocSection, 'id'>[] {
+  const sections: Omit<DocSection, 'id'>[] = [];
+  const trail: { level: number; title: string }[] = [];
+  const anchors = new Map<string, number>();
+  let anchor: string | null = null;
+  let body: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = body.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) {
+      sections.push({
+        path,
+        heading: trail.map(entry => entry.title).join(' > ') || INTRODUCTION,
+        url: anchor ? `${url}#${anchor}` : url,
+        text: clip(text),
+      });
+    }
+    body = [];
+  };
+
+  const startSection = (level: number, text: string) => {
+    flush();
+    const title = headingTitle(text);
+    while (trail.length > 0 && trail[trail.length - 1].level >= level) trail.pop();
+    trail.push({ level, title });
+
+    // Repeated headings get "-1", "-2"... like on GitHub
+    const base = slug(title);
+    const seen = anchors.get(base) ?? 0;
+    anchors.set(base, seen + 1);
+    anchor = seen > 0 ? `${base}-${seen}` : base;
+  };
+
+  for (const line of cleanMarkdown(markdown).split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence;
+    if (inFence) {
+      body.push(line);
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      startSection(atx[1].length, atx[2]);
+      continue;
+    }
+
+    // "Title" over "=====" or "-----"
+    const previous = body[body.length - 1];
+    const underline = line.match(SETEXT_UNDERLINE);
+    if (underline && previous?.trim() && !/^\s*([-*+]|\d+\.)\s/.test(previous)) {
+      body.pop();
+      startSection(underline[1].startsWith('=') ? 1 : 2, previous);
+      continue;
+    }
+
+    body.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * The full README and the markdown files in docs/, split into sections and
+ * numbered "S1", "S2"... across files. The README text is returned as well
+ * for the integration checks; it is empty when there is none.
+ */
+export async function fetchRepoDocs(
+  owner: string,
+  name: string,
+  { fullName, ref, tree }: { fullName: string; ref: string; tree: TreeEntry[] }
+): Promise<{ readme: string; sections: DocSection[] }> {
+  let readme = '';
+  let readmePath = 'README.md';
+  try {
+    const response = await octokit.repos.getReadme({ owner, repo: name, ref });
+    readme = Buffer.from(response.data.content, 'base64').toString('utf-8');
+    readmePath = response.data.path;
+  } catch (error) {
+    console.error('README fetch error:', error);
+  }
+
+  const docsPaths = tree
+    .filter(entry => entry.type === 'blob' && DOCS_FILE.test(entry.path) && entry.size <= MAX_DOCS_BYTES)
+    .map(entry => entry.path)
+    .filter(path => path !== readmePath)
+    .sort()
+    .slice(0, MAX_DOCS_FILES);
+  const docs = await Promise.all(docsPaths.map(path => fetchFileText(owner, name, path, ref)));
+
+  const files = [
+    { path: readmePath, text: readme },
+    ...docsPaths.map((path, idx) => ({ path, text: docs[idx] ?? '' })),
+  ];
+
+  const sections = files
+    .flatMap(file => splitSections(file.path, file.text, fileUrl(fullName, ref, file.path)))
+    .map((section, idx) => ({ id: `S${idx + 1}`, ...section }));
+
+  return { readme, sections };
+}
+
+/**
+ * Sections relevant to the deliverables, in document order: each
+ * deliverable's best BM25 matches, first choices before second ones, within
+ * the prompt budget. The README's first section is always kept as an
+ * overview; when nothing matches, the leading sections stand in, like the
+ * old excerpt.
+ */
+export function selectSections(sections: DocSection[], deliverables: string[], budget = PROMPT_BUDGET): DocSection[] {
+  if (sections.length === 0) return [];
+
+  const documents = sections.map(section => tokenize(`${section.heading} ${section.text}`));
+  const rankings = deliverables.map(deliverable =>
+    bm25Scores(documents, tokenize(deliverable))
+      .map((score, idx) => ({ score, idx }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, SECTIONS_PER_DELIVERABLE)
+      .map(({ idx }) => idx)
+  );
+
+  const picked = new Set<number>();
+  let used = 0;
+  const pick = (idx: number) => {
+    if (picked.has(idx) || used + sections[idx].text.length > budget) return;
+    picked.add(idx);
+    used += sections[idx].text.length;
+  };
+
+  pick(0);
+  for (let rank = 0; rank < SECTIONS_PER_DELIVERABLE; rank++) {
+    rankings.forEach(ranking => {
+      if (ranking[rank] !== undefined) pick(ranking[rank]);
+    });
+  }
+  if (rankings.every(ranking => ranking.length === 0)) {
+    sections.forEach((_, idx) => pick(idx));
+  }
+
+  return [...picked].sort((a, b) => a - b).map(idx => sections[idx]);
+}
+
+/**
+ * Sections as a prompt block, each labelled with the ID covers claims cite
+ */
+export function formatDocSections(sections: DocSection[]): string {
+  return sections.map(section => `[${section.id}] ${section.path} > ${section.heading}\n${section.text}`).join('\n\n');
+}
+
+/**
+ * Covers claims as text, with the IDs of the given sections each one cites.
+ * IDs of sections the model was not shown are dropped.
+ */
+export function resolveCoverSources(
+  covers: (string | { text: string; sections: string[] })[],
+  sections: DocSection[]
+): { covers: string[]; coverSources: string[][] } {
+  const known = new Set(sections.map(section => section.id));
+  const claims = covers.map(item => (typeof item === 'string' ? { text: item, sections: [] } : item));
+
+  return {
+    covers: claims.map(claim => claim.text),
+    coverSources: claims.map(claim => [...new Set(claim.sections.filter(id => known.has(id)))]),
+  };
+}
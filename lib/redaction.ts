@@ -0,0 +1,273 @@
+import { Redaction, RedactionKind, SOWDocument } from './types';
+import { detectSections } from './sections';
+
+/**
+ * Redaction of client-confidential data before SOW text is sent to an LLM.
+ *
+ * Detected values are replaced with stable placeholders such as `[ORG_1]`:
+ * the same value always maps to the same placeholder across every document
+ * in the project, so the model can still reason about "the client" and the
+ * UI can re-hydrate placeholders for display.
+ */
+
+const PLACEHOLDER_PREFIX: Record<RedactionKind, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  amount: 'AMOUNT',
+  account: 'ACCOUNT',
+  organization: 'ORG',
+  person: 'PERSON',
+  custom: 'TERM',
+};
+
+export const REDACTION_LABELS: Record<RedactionKind, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  amount: 'Monetary amounts',
+  account: 'Account numbers',
+  organization: 'Organizations',
+  person: 'People',
+  custom: 'Custom terms',
+};
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|AMOUNT|ACCOUNT|ORG|PERSON|TERM)_\d+\]/g;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{2,4}[\s.-]\d{3,4}(?:[\s.-]?\d{3,4})?\b/g;
+const AMOUNT_PATTERN = /(?:[$€£¥]|\b(?:USD|EUR|GBP|CAD|AUD)\s?)\d[\d,]*(?:\.\d+)?(?:\s?(?:k|m|million|thousand|bn|billion)\b)?|\b\d[\d,]*(?:\.\d+)?\s?(?:USD|EUR|GBP|CAD|AUD|dollars|euros|pounds)\b/gi;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+const LABELLED_ACCOUNT_PATTERN = /\b(?:account|acct|routing|iban|swift|bic|sort code|card)(?:\s+(?:number|no\.?|#))?\s*[:#]?\s*([A-Z0-9][A-Z0-9 -]{4,32}\d)/gi;
+const ORGANIZATION_PATTERN = /\b(?:[A-Z][\w&'-]*[ \t]+){0,4}[A-Z][\w&'-]*,?[ \t]+(?:Inc|LLC|L\.L\.C|Ltd|Limited|Corp|Corporation|GmbH|AG|LLP|PLC|Co|Company|Group|Holdings|Partners|Associates|Foundation|University|Agency|Bank)\b\.?/g;
+const HONORIFIC_PATTERN = /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?[ \t]+[A-Z][a-z'-]+(?:[ \t]+[A-Z][a-z'-]+)?/g;
+const LABELLED_PERSON_PATTERN = /\b(?:Contact|Attn|Attention|Prepared by|Prepared for|Submitted by|Approved by|Signed by|Project Manager|Project Lead|Sponsor|Name)[ \t]*:[ \t]*([A-Z][a-z'-]+(?:[ \t]+[A-Z]\.)?(?:[ \t]+[A-Z][a-z'-]+){1,2})/g;
+const LABELLED_CLIENT_PATTERN = /\b(?:Client|Customer|Company|Organization|Vendor|Contractor)[ \t]*:[ \t]*([A-Z][\w&'.-]*(?:[ \t]+[A-Z][\w&'.-]*){0,4})/g;
+
+interface Match {
+  start: number;
+  end: number;
+  value: string;
+  kind: RedactionKind;
+}
+
+interface Replacement {
+  start: number;
+  end: number;
+  length: number; // Length of the placeholder that replaced [start, end)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function collect(text: string, pattern: RegExp, kind: RedactionKind, group?: number): Match[] {
+  const matches: Match[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const value = group ? match[group] : match[0];
+    if (!value) continue;
+
+    // Locate the captured group inside the full match
+    const start = (match.index ?? 0) + (group ? match[0].lastIndexOf(value) : 0);
+    matches.push({ start, end: start + value.length, value: value.trim(), kind });
+  }
+  return matches;
+}
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, '').length;
+}
+
+function detect(text: string, customTerms: string[], known: Redaction[]): Match[] {
+  const matches: Match[] = [
+    ...customTerms.flatMap(term =>
+      collect(text, new RegExp(`\\b${escapeRegExp(term)}\\b`, 'gi'), 'custom')
+    ),
+    // Values redacted earlier, e.g. a client name the SOW gave with "Inc" and a user answer without
+    ...known.flatMap(({ value, kind }) =>
+      collect(text, new RegExp(`\\b${escapeRegExp(value)}\\b`, 'gi'), kind)
+    ),
+    ...collect(text, EMAIL_PATTERN, 'email'),
+    ...collect(text, IBAN_PATTERN, 'account'),
+    ...collect(text, LABELLED_ACCOUNT_PATTERN, 'account', 1).filter(match => digitCount(match.value) >= 6),
+    ...collect(text, AMOUNT_PATTERN, 'amount'),
+    ...collect(text, PHONE_PATTERN, 'phone').filter(match => digitCount(match.value) >= 9),
+    ...collect(text, ORGANIZATION_PATTERN, 'organization'),
+    ...collect(text, LABELLED_CLIENT_PATTERN, 'organization', 1),
+    ...collect(text, HONORIFIC_PATTERN, 'person'),
+    ...collect(text, LABELLED_PERSON_PATTERN, 'person', 1),
+  ];
+
+  // Names found once are redacted everywhere they occur
+  const named = matches.filter(match => ['organization', 'person', 'custom'].includes(match.kind));
+  for (const { value, kind } of named) {
+    matches.push(...collect(text, new RegExp(`\\b${escapeRegExp(value)}\\b`, 'g'), kind));
+  }
+
+  // Resolve overlaps: earliest match wins, then the longest
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const resolved: Match[] = [];
+  for (const match of matches) {
+    const last = resolved[resolved.length - 1];
+    if (!last || match.start >= last.end) {
+      resolved.push(match);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Create a redactor that shares placeholders across all texts it processes.
+ * Earlier redactions keep their placeholders, and new values are numbered
+ * after them.
+ */
+export function createRedactor(customTerms: string[] = [], known: Redaction[] = []) {
+  const terms = customTerms.map(term => term.trim()).filter(term => term.length > 1);
+  const placeholders = new Map<string, Redaction>();
+  const counters: Partial<Record<RedactionKind, number>> = {};
+
+  for (const redaction of known) {
+    placeholders.set(`${redaction.kind}:${redaction.value.toLowerCase()}`, { ...redaction });
+    const number = Number(redaction.placeholder.match(/_(\d+)\]$/)?.[1] ?? 0);
+    counters[redaction.kind] = Math.max(counters[redaction.kind] || 0, number);
+  }
+
+  const placeholderFor = (match: Match): string => {
+    const key = `${match.kind}:${match.value.toLowerCase()}`;
+    let redaction = placeholders.get(key);
+
+    if (!redaction) {
+      const count = (counters[match.kind] || 0) + 1;
+      counters[match.kind] = count;
+      redaction = {
+        placeholder: `[${PLACEHOLDER_PREFIX[match.kind]}_${count}]`,
+        value: match.value,
+        kind: match.kind,
+        occurrences: 0,
+      };
+      placeholders.set(key, redaction);
+    }
+
+    redaction.occurrences += 1;
+    return redaction.placeholder;
+  };
+
+  /**
+   * Redact a text. The returned `mapOffset` translates character offsets in
+   * the original text to offsets in the redacted one.
+   */
+  const redact = (text: string) => {
+    const replacements: Replacement[] = [];
+    let output = '';
+    let cursor = 0;
+
+    for (const match of detect(text, terms, known)) {
+      const placeholder = placeholderFor(match);
+      output += text.slice(cursor, match.start) + placeholder;
+      replacements.push({ start: match.start, end: match.end, length: placeholder.length });
+      cursor = match.end;
+    }
+    output += text.slice(cursor);
+
+    const mapOffset = (offset: number): number => {
+      let shift = 0;
+      for (const replacement of replacements) {
+        if (replacement.end > offset) break;
+        shift += replacement.length - (replacement.end - replacement.start);
+      }
+      return offset + shift;
+    };
+
+    return { text: output, mapOffset };
+  };
+
+  return {
+    redact,
+    redactions: () => [...placeholders.values()],
+  };
+}
+
+/**
+ * Redact every document in a project with shared placeholders. Page offsets
+ * are remapped and the outline re-detected on the redacted text.
+ */
+export function redactDocuments(
+  documents: SOWDocument[],
+  customTerms: string[] = []
+): { documents: SOWDocument[]; redactions: Redaction[] } {
+  const redactor = createRedactor(customTerms);
+
+  const redacted = documents.map(doc => {
+    const { text, mapOffset } = redactor.redact(doc.content);
+    return {
+      ...doc,
+      content: text,
+      outline: detectSections(text),
+      pageStarts: doc.pageStarts ? doc.pageStarts.map(mapOffset) : null,
+    };
+  });
+
+  return { documents: redacted, redactions: redactor.redactions() };
+}
+
+/**
+ * Custom redaction terms configured for the deployment (REDACTION_TERMS,
+ * comma-separated), e.g. internal codenames or client brands
+ */
+export function configuredRedactionTerms(): string[] {
+  return (process.env.REDACTION_TERMS || '')
+    .split(',')
+    .map(term => term.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The deployment's terms plus the custom terms a request names
+ */
+export function redactionTermsFor(requested: unknown): string[] {
+  return [
+    ...configuredRedactionTerms(),
+    ...(Array.isArray(requested) ? requested.filter((term): term is string => typeof term === 'string') : []),
+  ];
+}
+
+/**
+ * Redactions from a request body; malformed entries are dropped
+ */
+export function parseRedactions(value: unknown): Redaction[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter((item): item is Redaction =>
+    !!item
+    && typeof item.placeholder === 'string'
+    && typeof item.value === 'string'
+    && item.value.trim().length > 0
+    && item.kind in PLACEHOLDER_PREFIX
+    && typeof item.occurrences === 'number'
+  );
+}
+
+/**
+ * Add redactions made after the SOW's, e.g. in the user's answers, keeping
+ * the existing entry for a placeholder both lists have
+ */
+export function mergeRedactions(existing: Redaction[], added: Redaction[]): Redaction[] {
+  const placeholders = new Set(existing.map(redaction => redaction.placeholder));
+  return [...existing, ...added.filter(redaction => !placeholders.has(redaction.placeholder))];
+}
+
+/**
+ * Replace placeholders with their original values for display
+ */
+export function rehydrate(text: string, redactions: Redaction[]): string {
+  if (redactions.length === 0) return text;
+
+  const values = new Map(redactions.map(redaction => [redaction.placeholder, redaction.value]));
+  return text.replace(PLACEHOLDER_PATTERN, placeholder => values.get(placeholder) ?? placeholder);
+}
+
+/**
+ * Remove placeholders, e.g. from search terms where they carry no meaning
+ */
+export function stripPlaceholders(text: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, '').replace(/\s{2,}/g, ' ').trim();
+}
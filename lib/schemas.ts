@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for LLM replies. Replies are validated against these before
+ * use; validation errors are fed back to the model in a repair prompt.
+ */
+
+// Priorities in the wording models tend to use, e.g. "High" or "Must have"
+const PRIORITY_ALIASES: Record<string, 'must' | 'should' | 'could'> = {
+  must: 'must', 'must have': 'must', high: 'must', critical: 'must', required: 'must',
+  should: 'should', 'should have': 'should', medium: 'should', normal: 'should',
+  could: 'could', 'could have': 'could', low: 'could', optional: 'could', 'nice to have': 'could',
+};
+
+// An unrecognised priority is dropped rather than failing the analysis
+const priority = z.preprocess(
+  value => (typeof value === 'string' ? PRIORITY_ALIASES[value.toLowerCase().trim()] ?? null : value),
+  z.enum(['must', 'should', 'could']).nullable().optional()
+).catch(null);
+
+const coverageLevel = z.preprocess(
+  value => (typeof value === 'string' ? value.toLowerCase().trim() : value),
+  z.enum(['full', 'partial', 'none'])
+);
+
+// A requirement with its claimed source, or a bare string from older prompts
+export const RequirementReplySchema = z.union([
+  z.string().min(1),
+  z.object({
+    text: z.string().min(1),
+    source: z.string().nullable().optional(),
+    page: z.number().int().nullable().optional(),
+    quote: z.string().nullable().optional(),
+    priority,
+  }),
+]);
+
+export const QuestionSchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).min(2),
+});
+
+const requirementLists = {
+  deliverables: z.array(RequirementReplySchema),
+  technicalRequirements: z.array(RequirementReplySchema).default([]),
+  integrations: z.array(RequirementReplySchema).default([]),
+};
+
+// Single-pass SOW analysis: requirements and questions
+export const AnalysisReplySchema = z.object({
+  projectType: z.string().min(1),
+  ...requirementLists,
+  deliverables: requirementLists.deliverables.min(1),
+  questions: z.array(QuestionSchema).min(1),
+});
+
+// Requirements extracted from one chunk of a long SOW
+export const ChunkReplySchema = z.object({
+  projectType: z.string().default(''),
+  ...requirementLists,
+  deliverables: requirementLists.deliverables.default([]),
+});
+
+// Project type and questions generated from merged chunk results
+export const AnalysisSummaryReplySchema = z.object({
+  projectType: z.string().min(1),
+  questions: z.array(QuestionSchema).min(1),
+});
+
+// Coverage of each deliverable by a search result
+export const CoverageReplySchema = z.object({
+  deliverables: z.array(z.object({
+    id: z.string().min(1).transform(id => id.trim().toUpperCase()),
+    coverage: coverageLevel,
+    justification: z.string().default(''),
+  })).min(1),
+});
+
+// A covers claim with the README sections backing it, or a bare string from older prompts
+export const CoverReplySchema = z.union([
+  z.string().min(1),
+  z.object({
+    text: z.string().min(1),
+    sections: z.array(z.string().transform(id => id.trim().toUpperCase())).default([]),
+  }),
+]);
+
+// Detailed fit of a repository against the SOW
+export const FitAnalysisSchema = z.object({
+  covers: z.array(CoverReplySchema),
+  gaps: z.array(z.string()),
+  timeSaved: z.string().min(1),
+  recommendedModifications: z.array(z.string()),
+  risks: z.array(z.string()),
+});
+
+export const RepoDetailReplySchema = z.object({
+  readmeSummary: z.string().min(1),
+  fitAnalysis: FitAnalysisSchema,
+});
+
+// Planned GitHub search queries
+export const QueryPlanReplySchema = z.object({
+  queries: z.array(z.object({
+    intent: z.string().min(1),
+    query: z.string().min(1),
+    deliverable: z.string().min(1).transform(id => id.trim().toUpperCase()).nullable().optional(), // ID of the deliverable searched for
+  })).min(1),
+});
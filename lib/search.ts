@@ -0,0 +1,105 @@
+import { readEventStream } from './sse';
+import { DistributionModel, Redaction, RepoResult, SearchConstraints, SearchCursor, SearchProgress, SearchQuery, SearchRound, SOWAnalysis } from './types';
+
+/**
+ * Client side of the streaming repository search, shared by the first search
+ * and by "search deeper" rounds
+ */
+
+export interface SearchRequest {
+  analysis: SOWAnalysis;
+  questionAnswers: Record<string, string>;
+  additionalContext: string;
+  constraints: SearchConstraints;
+  distributionModel: DistributionModel | null; // Project setting; null infers it from the answers
+  redactionTerms: string[];
+  redactions: Redaction[]; // Made so far; answers reuse their placeholders
+  cursor?: SearchCursor | null; // Continue from an earlier round
+}
+
+/**
+ * Run a search round. `onStart` is called once the stream opens, then
+ * `onProgress` and `onRepo` as queries run and repos are analyzed.
+ * `onRedactions` receives what was redacted from the answers and context.
+ */
+export async function streamSearch(
+  request: SearchRequest,
+  { onStart, onProgress, onRepo, onRedactions }: {
+    onStart?: () => void;
+    onProgress: (progress: SearchProgress) => void;
+    onRepo: (repo: RepoResult, relevant: boolean) => void;
+    onRedactions?: (redactions: Redaction[]) => void;
+  }
+): Promise<SearchRound> {
+  const response = await fetch('/api/search', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to search repositories');
+  }
+
+  onStart?.();
+  // A deeper round runs the queries of the first
+  let progress: SearchProgress = {
+    queries: request.cursor?.queries ?? [],
+    planned: false,
+    fetched: null,
+    excluded: 0,
+    analyzed: 0,
+    total: 0,
+    warning: null,
+  };
+
+  for await (const { event, data } of readEventStream(response)) {
+    if (event === 'redactions') {
+      onRedactions?.((data as { redactions: Redaction[] }).redactions);
+    } else if (event === 'queries') {
+      const { queries, planned } = data as { queries: SearchQuery[]; planned: boolean };
+      progress = { ...progress, queries, planned };
+    } else if (event === 'fetched') {
+      // Queries now carry their result counts; in a deeper round, the
+      // latest run of each, with the earlier totals of those not run again
+      const { count, excluded, analyzing, queries, warning } = data as {
+        count: number;
+        excluded: number;
+        analyzing: number;
+        queries: SearchQuery[];
+        warning?: string | null;
+      };
+      progress = {
+        ...progress,
+        queries,
+        fetched: count,
+        excluded,
+        total: analyzing,
+        warning: warning ?? null,
+      };
+    } else if (event === 'repo') {
+      const { repo, relevant } = data as { repo: RepoResult; relevant: boolean };
+      progress = { ...progress, analyzed: progress.analyzed + 1 };
+      onRepo(repo, relevant);
+    } else if (event === 'error') {
+      throw new Error((data as { error?: string }).error || 'Failed to search repositories');
+    } else if (event === 'done') {
+      onProgress(progress);
+      const round = data as Partial<SearchRound>;
+      return {
+        round: round.round ?? 0,
+        results: round.results ?? [],
+        unanalyzed: round.unanalyzed ?? [],
+        excluded: round.excluded ?? [],
+        cursor: round.cursor ?? null,
+        message: round.message,
+      };
+    }
+    onProgress(progress);
+  }
+
+  throw new Error('Search ended without results');
+}
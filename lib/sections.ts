@@ -0,0 +1,197 @@
+import { SectionType, SOWSection } from './types';
+
+// Heading keywords per section type. Order matters: "out of scope" must be
+// tested before "scope", "functional requirements" before "requirements".
+const SECTION_PATTERNS: [SectionType, RegExp][] = [
+  ['outOfScope', /out[\s-]+of[\s-]+scope|not in scope|exclusions?\b|excluded|not included|non[\s-]?goals?/],
+  ['acceptance', /acceptance|sign[\s-]?off|success criteria|definition of done|completion criteria/],
+  ['milestones', /milestones?|timeline|\bschedule\b|project phases|delivery dates|project plan|time\s?frame/],
+  // Only unambiguous wording: "Payment Processing" or "Rate Limiting" are features
+  ['pricing', /pricing|\bfees?\b|payment terms|\bbudget\b|rate card/],
+  ['assumptions', /assumptions?|dependencies|constraints|prerequisites|client responsibilities/],
+  ['deliverables', /deliverables?|work products?|features|functional requirements|functionality|capabilities/],
+  ['scope', /scope|statement of work|objectives?|approach|services|requirements|work to be performed/],
+  ['background', /background|overview|introduction|about|context|summary|purpose|project description/],
+];
+
+// A subsection of Deliverables or Scope ("Payment Processing") belongs to its
+// parent, unless it is classified as one of these types wherever it is
+// ("Out of Scope Items", "Exclusions and Limitations")...
+const BREAKOUT_TYPES: SectionType[] = ['outOfScope', 'acceptance', 'milestones'];
+
+// ...or its heading names a section outright, e.g. "Budget" or "Assumptions"
+const STRONG_HEADING = /^((project|delivery|key) )?(pricing|fees|payment terms|budget|rate card|assumptions|dependencies|constraints|prerequisites)$/;
+
+const CONTAINER_TYPES: SectionType[] = ['deliverables', 'scope'];
+
+function breaksOut(heading: string, type: SectionType): boolean {
+  return BREAKOUT_TYPES.includes(type) || STRONG_HEADING.test(heading.toLowerCase());
+}
+
+// Human-readable labels for UI and prompts
+export const SECTION_LABELS: Record<SectionType, string> = {
+  background: 'Background',
+  scope: 'Scope',
+  deliverables: 'Deliverables',
+  milestones: 'Milestones',
+  acceptance: 'Acceptance Criteria',
+  outOfScope: 'Out of Scope',
+  assumptions: 'Assumptions',
+  pricing: 'Pricing',
+  other: 'Other',
+};
+
+interface HeadingCandidate {
+  title: string;
+  level: number;
+  // Strong headings (markdown, ALL CAPS) always start a section; weak ones
+  // (numbered or "Title:" lines) only when the title names a known section.
+  strong: boolean;
+}
+
+/**
+ * Classify a heading by keyword
+ */
+export function classifyHeading(heading: string): SectionType {
+  const normalized = heading.toLowerCase();
+  for (const [type, pattern] of SECTION_PATTERNS) {
+    if (pattern.test(normalized)) return type;
+  }
+  return 'other';
+}
+
+function parseHeading(line: string, isolated: boolean): HeadingCandidate | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 100) return null;
+
+  // Markdown heading (also produced by the DOCX/ODT/RTF extractors)
+  const markdown = trimmed.match(/^(#{1,6})\s+(.+)$/);
+  if (markdown) {
+    return { title: stripNumbering(markdown[2]), level: markdown[1].length, strong: true };
+  }
+
+  const words = trimmed.split(/\s+/);
+  if (words.length > 10) return null;
+
+  // ALL CAPS line, e.g. "SCOPE OF WORK"
+  if (/[A-Z]{3}/.test(trimmed) && trimmed === trimmed.toUpperCase() && !/^[-*•|]/.test(trimmed)) {
+    return { title: stripNumbering(trimmed.replace(/:$/, '')), level: 1, strong: true };
+  }
+
+  // "Deliverables:" style lead-in line
+  if (trimmed.endsWith(':')) {
+    return { title: stripNumbering(trimmed.slice(0, -1)), level: 2, strong: false };
+  }
+
+  // Numbered heading, e.g. "3.1 Acceptance Criteria"
+  const numbered = trimmed.match(/^((?:\d+\.)*\d+\.?|[IVX]+\.|[A-Z]\.)\s+([A-Z].*)$/);
+  if (numbered && !/[.;,]$/.test(trimmed)) {
+    const depth = numbered[1].replace(/\.$/, '').split('.').length;
+    return { title: numbered[2], level: depth, strong: false };
+  }
+
+  // Short title-like line standing on its own
+  if (isolated && words.length <= 6 && /^[A-Z]/.test(trimmed) && !/[.;,!?]$/.test(trimmed)) {
+    return { title: trimmed, level: 2, strong: false };
+  }
+
+  return null;
+}
+
+function stripNumbering(title: string): string {
+  return title.replace(/^((?:\d+\.)*\d+\.?|[IVX]+\.|[A-Z]\.)\s+/, '').trim();
+}
+
+/**
+ * Split a SOW into typed sections based on its headings.
+ *
+ * Text before the first heading is treated as background. A document
+ * without any recognisable headings comes back as a single "other" section.
+ */
+export function detectSections(text: string): SOWSection[] {
+  const lines = text.split('\n');
+  const sections: SOWSection[] = [];
+  const parents: { level: number; type: SectionType }[] = [];
+
+  let current: SOWSection = { type: 'background', heading: null, content: '', start: 0 };
+  let offset = 0;
+
+  const pushCurrent = () => {
+    current.content = current.content.trim();
+    if (current.content || current.heading) {
+      sections.push(current);
+    }
+  };
+
+  lines.forEach((line, idx) => {
+    const isolated = (lines[idx - 1] ?? '').trim() === '' && (lines[idx + 1] ?? '').trim() === '';
+    const heading = parseHeading(line, isolated);
+    let type = heading ? classifyHeading(heading.title) : 'other';
+
+    if (heading && (heading.strong || type !== 'other')) {
+      while (parents.length > 0 && parents[parents.length - 1].level >= heading.level) {
+        parents.pop();
+      }
+      // Unrecognised subsections ("3.2 Reporting") belong to their parent, and
+      // so do the subsections of deliverables and scope unless they name a section
+      const parent = parents[parents.length - 1];
+      if (parent && (type === 'other' || (CONTAINER_TYPES.includes(parent.type) && !breaksOut(heading.title, type)))) {
+        type = parent.type;
+      }
+      parents.push({ level: heading.level, type });
+
+      pushCurrent();
+      current = { type, heading: heading.title, content: '', start: offset };
+    } else {
+      current.content += line + '\n';
+    }
+
+    offset += line.length + 1;
+  });
+
+  pushCurrent();
+
+  if (sections.every(section => section.heading === null)) {
+    return [{ type: 'other', heading: null, content: text.trim(), start: 0 }];
+  }
+
+  return sections;
+}
+
+/**
+ * Render the outline for an LLM prompt. Pricing is left out because it never
+ * affects which repositories are relevant.
+ */
+export function formatSectionsForPrompt(sections: SOWSection[]): string {
+  return sections
+    .filter(section => section.type !== 'pricing')
+    .map(section => {
+      const heading = section.heading ? ` heading="${section.heading.replace(/"/g, "'")}"` : '';
+      return `<section type="${section.type}"${heading}>\n${section.content}\n</section>`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Lower-cased words of four or more characters, used for fuzzy matching
+ */
+export function significantWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]{4,}/g) || [];
+}
+
+/**
+ * Check whether a deliverable restates an item from an out-of-scope section
+ */
+export function isOutOfScope(deliverable: string, sections: SOWSection[]): boolean {
+  const words = significantWords(deliverable);
+  if (words.length === 0) return false;
+
+  return sections
+    .filter(section => section.type === 'outOfScope')
+    .flatMap(section => section.content.split('\n'))
+    .map(line => new Set(significantWords(line)))
+    .some(exclusion => {
+      const overlap = words.filter(word => exclusion.has(word)).length;
+      return overlap / words.length >= 0.8;
+    });
+}
@@ -0,0 +1,89 @@
+/**
+ * Server-sent events over a fetch response. Routes stream progress events
+ * while long-running work completes, and the client reads them with
+ * `readEventStream` (EventSource cannot POST a request body).
+ */
+
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Create a streaming response. `run` sends events as work progresses; the
+ * stream closes when it settles. Errors thrown by `run` are sent as an
+ * "error" event, since the status code has already been sent.
+ */
+export function eventStream(run: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        send('error', { error: error instanceof Error ? error.message : 'Unexpected error' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+function parseEvent(block: string): StreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trim());
+    }
+  }
+
+  if (data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) };
+}
+
+/**
+ * Read the events of a streaming response as they arrive
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<StreamEvent> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+
+    for (const block of blocks) {
+      const event = parseEvent(block);
+      if (event) yield event;
+    }
+  }
+
+  const event = parseEvent(buffer);
+  if (event) yield event;
+}
@@ -0,0 +1,166 @@
+import { CoverageLevel, Deliverable, RepoResult } from './types';
+import { coverageScore, LEVEL_SCORES, PRIORITY_WEIGHTS } from './coverage';
+import { classifyLicense } from './licenses';
+
+/**
+ * Stack builder: choose a small set of compatible repositories that together
+ * cover as many SOW deliverables as possible, judged by the same
+ * priority-weighted coverage matrix as single repos. Runs over the analyzed
+ * search results, so it needs no further API calls.
+ */
+
+// A repository in a stack and the deliverables it improves on
+export interface StackMember {
+  repo: RepoResult;
+  adds: { deliverableId: string; level: CoverageLevel }[];
+}
+
+export interface RepoStack {
+  members: StackMember[];
+  language: string | null; // Language family shared by the members
+  levels: Map<string, CoverageLevel>; // Best level per deliverable across members
+  covered: string[]; // Deliverable IDs covered fully
+  partial: string[];
+  uncovered: string[];
+  coveragePercentage: number; // Priority-weighted, as for single repos
+  warnings: string[];
+}
+
+export const DEFAULT_MAX_STACK_SIZE = 3;
+
+// Languages that can be combined in one codebase
+const LANGUAGE_FAMILIES: Record<string, string> = {
+  TypeScript: 'JavaScript',
+  Vue: 'JavaScript',
+  Svelte: 'JavaScript',
+  Kotlin: 'Java',
+  Scala: 'Java',
+  'C#': '.NET',
+  'F#': '.NET',
+  'Visual Basic .NET': '.NET',
+};
+
+// Copyleft licenses that require the combined work to use the same license
+function isStrongCopyleft(license: string | null): boolean {
+  const licenseClass = classifyLicense(license);
+  return licenseClass === 'strongCopyleft' || licenseClass === 'networkCopyleft';
+}
+
+export function languageFamily(language: string | null): string | null {
+  if (!language) return null;
+  return LANGUAGE_FAMILIES[language] || language;
+}
+
+/**
+ * Two different strong copyleft licenses cannot both govern one product.
+ * Repositories without a license are combinable but flagged in warnings.
+ */
+function licensesCompatible(a: string | null, b: string | null): boolean {
+  if (!a || !b || a === b) return true;
+  return !(isStrongCopyleft(a) && isStrongCopyleft(b));
+}
+
+/**
+ * Weighted greedy set cover: repeatedly add the repo that improves the
+ * stack's coverage most, preferring higher coverage and stars on ties
+ */
+function greedyStack(candidates: RepoResult[], deliverables: Deliverable[], maxSize: number) {
+  const members: StackMember[] = [];
+  const levels = new Map<string, CoverageLevel>();
+  const weights = new Map(deliverables.map(deliverable => [deliverable.id, PRIORITY_WEIGHTS[deliverable.priority]]));
+
+  while (members.length < maxSize) {
+    let best: (StackMember & { gain: number }) | null = null;
+
+    for (const repo of candidates) {
+      if (members.some(member => member.repo.id === repo.id)) continue;
+      if (!members.every(member => licensesCompatible(member.repo.license, repo.license))) continue;
+
+      const adds = repo.coverage.filter(
+        entry => LEVEL_SCORES[entry.level] > LEVEL_SCORES[levels.get(entry.deliverableId) ?? 'none']
+      );
+      const gain = adds.reduce(
+        (sum, entry) =>
+          sum + (weights.get(entry.deliverableId) ?? 0) *
+            (LEVEL_SCORES[entry.level] - LEVEL_SCORES[levels.get(entry.deliverableId) ?? 'none']),
+        0
+      );
+      if (gain === 0) continue;
+
+      if (
+        !best ||
+        gain > best.gain ||
+        (gain === best.gain && repo.coveragePercentage > best.repo.coveragePercentage) ||
+        (gain === best.gain && repo.coveragePercentage === best.repo.coveragePercentage && repo.stars > best.repo.stars)
+      ) {
+        best = { repo, adds: adds.map(({ deliverableId, level }) => ({ deliverableId, level })), gain };
+      }
+    }
+
+    if (!best) break;
+    members.push({ repo: best.repo, adds: best.adds });
+    best.adds.forEach(entry => levels.set(entry.deliverableId, entry.level));
+  }
+
+  return { members, levels };
+}
+
+function stackWarnings(members: StackMember[]): string[] {
+  const warnings: string[] = [];
+
+  for (const { repo } of members) {
+    if (!repo.license) {
+      warnings.push(`${repo.fullName} has no license - it cannot be reused without the author's permission`);
+    } else if (isStrongCopyleft(repo.license)) {
+      warnings.push(`${repo.fullName} is ${repo.license} - the combined product must be released under its terms`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Build the stack with the highest coverage from at most `maxSize` repos.
+ * Members share a language family (repos without a detected language fit any
+ * stack); fewer members win ties. Returns null when no analyzed repo covers
+ * a deliverable.
+ */
+export function buildStack(
+  results: RepoResult[],
+  deliverables: Deliverable[],
+  maxSize = DEFAULT_MAX_STACK_SIZE
+): RepoStack | null {
+  const candidates = results.filter(repo => repo.status === 'analyzed' && repo.covers.length > 0);
+  if (candidates.length === 0 || deliverables.length === 0) return null;
+
+  let best: (ReturnType<typeof greedyStack> & { language: string | null; score: number }) | null = null;
+
+  for (const language of new Set(candidates.map(repo => languageFamily(repo.language)))) {
+    const pool = candidates.filter(repo => {
+      const family = languageFamily(repo.language);
+      return family === null || family === language;
+    });
+    const stack = greedyStack(pool, deliverables, maxSize);
+    const score = coverageScore(stack.levels, deliverables);
+
+    if (!best || score > best.score || (score === best.score && stack.members.length < best.members.length)) {
+      best = { ...stack, language, score };
+    }
+  }
+
+  if (!best) return null;
+
+  const withLevel = (level: CoverageLevel) =>
+    deliverables.filter(deliverable => (best.levels.get(deliverable.id) ?? 'none') === level).map(deliverable => deliverable.id);
+
+  return {
+    members: best.members,
+    language: best.language,
+    levels: best.levels,
+    covered: withLevel('full'),
+    partial: withLevel('partial'),
+    uncovered: withLevel('none'),
+    coveragePercentage: best.score,
+    warnings: stackWarnings(best.members),
+  };
+}
@@ -1,14 +1,28 @@
 import { create } from 'zustand';
 import { AppState, SOWAnalysis, RepoResult, RepoDetail } from './types';
+import { DEFAULT_RANKING_WEIGHTS } from './ranking';
+import { DEFAULT_CONSTRAINTS } from './constraints';
+import { DEFAULT_RESULT_FILTERS } from './facets';
+import { mergeRedactions } from './redaction';
 
 const initialState = {
   currentStep: 'upload' as const,
-  sowContent: null,
-  filename: null,
+  documents: [],
+  redactionTerms: [],
+  redactions: [],
   analysis: null,
   questionAnswers: {},
   additionalContext: '',
   searchResults: [],
+  searchProgress: null,
+  unanalyzedResults: [],
+  excludedResults: [],
+  searchCursor: null,
+  resultsPage: 0,
+  resultFilters: DEFAULT_RESULT_FILTERS,
+  constraints: DEFAULT_CONSTRAINTS,
+  distributionModel: null,
+  rankingWeights: DEFAULT_RANKING_WEIGHTS,
   selectedRepo: null,
   isAnalyzing: false,
   isSearching: false,
@@ -22,14 +36,18 @@ export const useStore = create<AppState>((set) => ({
   // Step navigation
   setCurrentStep: (step) => set({ currentStep: step }),
 
-  // SOW content
-  setSOWContent: (content, filename) =>
+  // SOW documents
+  setDocuments: (documents) =>
     set({
-      sowContent: content,
-      filename: filename || null,
+      documents,
       currentStep: 'analysis',
     }),
 
+  // Redaction
+  setRedactionTerms: (terms) => set({ redactionTerms: terms }),
+  setRedactions: (redactions) => set({ redactions }),
+  addRedactions: (redactions) => set((state) => ({ redactions: mergeRedactions(state.redactions, redactions) })),
+
   // Analysis
   setAnalysis: (analysis) =>
     set({
@@ -37,6 +55,16 @@ export const useStore = create<AppState>((set) => ({
       isAnalyzing: false,
     }),
 
+  setDeliverablePriority: (deliverableId, priority) =>
+    set((state) => ({
+      analysis: state.analysis && {
+        ...state.analysis,
+        deliverables: state.analysis.deliverables.map((deliverable) =>
+          deliverable.id === deliverableId ? { ...deliverable, priority } : deliverable
+        ),
+      },
+    })),
+
   // Question answers
   setQuestionAnswer: (questionId, answer) =>
     set((state) => ({
@@ -58,6 +86,83 @@ export const useStore = create<AppState>((set) => ({
       isSearching: false,
     }),
 
+  // Streaming search - results are shown as they arrive
+  beginSearch: () =>
+    set({
+      searchResults: [],
+      searchProgress: null,
+      unanalyzedResults: [],
+      excludedResults: [],
+      searchCursor: null,
+      resultsPage: 0,
+      resultFilters: DEFAULT_RESULT_FILTERS,
+      currentStep: 'results',
+      isSearching: true,
+      error: null,
+    }),
+
+  // Searching deeper keeps the results of earlier rounds in place
+  beginDeeperSearch: () =>
+    set({
+      isSearching: true,
+      error: null,
+    }),
+
+  // The final results of a round replace those streamed during it
+  completeSearch: ({ round, results, unanalyzed, excluded, cursor }) =>
+    set((state) => ({
+      searchResults: [...state.searchResults.filter((repo) => repo.round !== round), ...results],
+      unanalyzedResults: [...state.unanalyzedResults.filter((repo) => repo.round !== round), ...unanalyzed],
+      excludedResults: [...state.excludedResults, ...excluded],
+      searchCursor: cursor,
+      currentStep: 'results',
+      isSearching: false,
+    })),
+
+  setResultsPage: (page) => set({ resultsPage: page }),
+
+  // Changing the filters starts over at the first page
+  setResultFilters: (filters) => set({ resultFilters: filters, resultsPage: 0 }),
+
+  setSearchProgress: (progress) => set({ searchProgress: progress }),
+
+  // Results are ordered by ranking score where they are displayed
+  addSearchResult: (result) =>
+    set((state) => ({
+      searchResults: [...state.searchResults, result],
+    })),
+
+  // Repos whose coverage analysis failed, kept apart until retried
+  setUnanalyzedResults: (results) => set({ unanalyzedResults: results }),
+
+  addUnanalyzedResult: (result) =>
+    set((state) => ({
+      unanalyzedResults: [...state.unanalyzedResults, result],
+    })),
+
+  // A retry replaces the unanalyzed entry: a relevant repo joins the
+  // results, one that failed again stays with its new error. Retried repos
+  // join the latest round, so they never push down results of earlier rounds
+  // the user has already seen.
+  resolveUnanalyzedResult: (result, relevant) =>
+    set((state) => ({
+      unanalyzedResults: result.status === 'unanalyzed'
+        ? state.unanalyzedResults.map((repo) => (repo.id === result.id ? result : repo))
+        : state.unanalyzedResults.filter((repo) => repo.id !== result.id),
+      searchResults: relevant
+        ? [...state.searchResults, { ...result, round: Math.max(result.round, state.searchCursor?.round ?? 0) }]
+        : state.searchResults,
+    })),
+
+  // Constraints
+  setConstraints: (constraints) => set({ constraints }),
+
+  // Distribution model
+  setDistributionModel: (model) => set({ distributionModel: model }),
+
+  // Ranking
+  setRankingWeights: (weights) => set({ rankingWeights: weights }),
+
   // Selected repo
   setSelectedRepo: (repo) =>
     set({
@@ -1,6 +1,50 @@
 // Step in the multi-step flow
 export type Step = 'upload' | 'analysis' | 'results' | 'detail';
 
+// Section types recognised in a SOW document
+export type SectionType =
+  | 'background'
+  | 'scope'
+  | 'deliverables'
+  | 'milestones'
+  | 'acceptance'
+  | 'outOfScope'
+  | 'assumptions'
+  | 'pricing'
+  | 'other';
+
+// Typed section of a SOW, detected from its headings
+export interface SOWSection {
+  type: SectionType;
+  heading: string | null;
+  content: string;
+  start: number; // Character offset of the section in the document text
+}
+
+// Role of a document within a multi-document project
+export type DocumentRole = 'sow' | 'appendix' | 'addendum' | 'changeOrder';
+
+// Parsed document uploaded to the project
+export interface SOWDocument {
+  id: string;
+  filename: string;
+  role: DocumentRole;
+  content: string;
+  outline: SOWSection[];
+  pageStarts: number[] | null; // Offset of each page in `content` (PDF only)
+}
+
+// Category of confidential data removed before analysis
+export type RedactionKind = 'email' | 'phone' | 'amount' | 'account' | 'organization' | 'person' | 'custom';
+
+// A redacted value and the placeholder that replaced it
+export interface Redaction {
+  placeholder: string; // e.g. "[ORG_1]"
+  value: string;
+  kind: RedactionKind;
+  occurrences: number;
+}
+
 // Dynamic question generated by LLM
 export interface Question {
   id: string;
@@ -8,13 +52,76 @@ export interface Question {
   options: string[];
 }
 
+// Where in the uploaded documents a requirement is stated
+export interface Citation {
+  documentId: string;
+  page: number | null; // 1-based; null for formats without pages
+  quote: string;
+  verified: boolean; // Quote was found in the document text
+}
+
+// Priority of a deliverable (MoSCoW)
+export type Priority = 'must' | 'should' | 'could';
+
+// Requirement extracted from the SOW, with the document it came from
+export interface Requirement {
+  text: string;
+  sourceDocument: string | null; // SOWDocument id
+  citation: Citation | null;
+  priority?: Priority; // As stated in the SOW, deliverables only
+}
+
+// Deliverable with a stable ID, referenced by coverage judgements
+export interface Deliverable extends Requirement {
+  id: string; // e.g. "D1"
+  priority: Priority;
+}
+
+// How much of a deliverable a repository provides
+export type CoverageLevel = 'full' | 'partial' | 'none';
+
+// A repository judged against one deliverable
+export interface DeliverableCoverage {
+  deliverableId: string;
+  level: CoverageLevel;
+  justification: string;
+}
+
 // SOW Analysis from LLM
 export interface SOWAnalysis {
   projectType: string;
-  deliverables: string[];
-  technicalRequirements: string[];
-  integrations: string[];
+  deliverables: Deliverable[];
+  technicalRequirements: Requirement[];
+  integrations: Requirement[];
   questions: Question[];
+  degraded: boolean; // True when part of the SOW could not be analyzed
+}
+
+// Progress of an analysis, streamed while long SOWs are analyzed in chunks
+export interface AnalysisProgress {
+  stage: 'extracting' | 'merging';
+  completed: number; // Chunks analyzed so far
+  total: number;
+}
+
+// A GitHub search query and the intent it serves
+export interface SearchQuery {
+  intent: string; // e.g. "SMS reminders"
+  query: string; // GitHub search syntax, qualifiers included
+  results?: number; // Repositories GitHub returned, once executed
+  error?: string; // Why the last run failed, e.g. the rate limit
+  deliverable?: string; // ID of the deliverable searched for, if not the whole project
+}
+
+// Progress of a repository search, streamed as results arrive
+export interface SearchProgress {
+  queries: SearchQuery[];
+  planned: boolean; // False when the keyword fallback was used
+  fetched: number | null; // Repositories returned by GitHub, once fetched
+  excluded: number; // Fetched repositories removed by the constraints
+  analyzed: number; // Repositories whose coverage has been estimated
+  total: number; // Repositories being analyzed
+  warning: string | null; // e.g. GitHub's rate limit cut the search short
 }
 
 // User's answer to a question
@@ -23,6 +130,10 @@ export interface QuestionAnswer {
   answer: string;
 }
 
+// Whether a repository's coverage could be analyzed. Unanalyzed repos have
+// an empty matrix and are kept out of the ranking.
+export type CoverageStatus = 'analyzed' | 'unanalyzed';
+
 // GitHub repository result
 export interface RepoResult {
   id: number;
@@ -31,12 +142,260 @@ export interface RepoResult {
   fullName: string;
   description: string | null;
   stars: number;
+  forks: number;
   language: string | null;
+  license: string | null; // SPDX identifier, null when GitHub found none
   lastActivity: string;
-  coveragePercentage: number;
-  covers: string[];
-  gaps: string[];
+  pushedAt: string; // Last push to any branch; unlike lastActivity, not moved by stars
+  archived: boolean;
+  isFork: boolean;
+  isTemplate: boolean;
+  coveragePercentage: number; // Priority-weighted score computed from `coverage`
+  coverage: DeliverableCoverage[]; // One entry per deliverable, in deliverable order
+  covers: string[]; // IDs of deliverables covered fully or partially
+  gaps: string[]; // IDs of deliverables not fully covered
   url: string;
+  foundBy: string[]; // Intents of the queries that returned this repo
+  status: CoverageStatus;
+  analysisError: string | null; // Why the coverage analysis failed, when unanalyzed
+  health: HealthReport | null; // Assessed for relevant repos only; null otherwise, or when no signal could be read
+  round: number; // Search round that found it: 0 for the first search, 1+ for "search deeper"
+}
+
+// Repository fields of a RepoResult, before coverage analysis
+export type RepoSummary = Omit<RepoResult, 'status' | 'analysisError' | 'coveragePercentage' | 'coverage' | 'covers' | 'gaps' | 'health'>;
+
+// A repo fetched from GitHub but not analyzed yet, with the text the
+// pre-ranking needs
+export interface PendingCandidate {
+  repo: RepoSummary;
+  topics: string[];
+  readme: string | null; // Excerpt; null until the candidate makes the pre-ranking shortlist
+  foundForDeliverables: string[];
+}
+
+// Where a search left off, so "search deeper" can continue it. Kept by the
+// browser and sent back with the next request.
+export interface SearchCursor {
+  queries: SearchQuery[]; // Executed queries, with their total result counts
+  page: number; // GitHub result pages fetched per query so far
+  round: number; // Last search round
+  seen: number[]; // IDs of every repo fetched so far
+  pending: PendingCandidate[]; // Fetched but not analyzed, for later rounds
+  exhausted: boolean; // Nothing left to fetch or analyze
+}
+
+// Final results of a search round
+export interface SearchRound {
+  round: number;
+  results: RepoResult[]; // Relevant repos, in ranking order
+  unanalyzed: RepoResult[];
+  excluded: ExcludedRepo[]; // Fetched, but removed by the project's constraints
+  cursor: SearchCursor | null;
+  message?: string;
+}
+
+// Non-negotiable requirements for candidate repositories, e.g. ".NET only"
+// or "no GPL". Empty lists and null limits leave a rule off.
+export interface SearchConstraints {
+  requiredLanguages: string[]; // Any of these, e.g. ["C#"]
+  forbiddenLanguages: string[];
+  allowedLicenses: string[]; // SPDX identifiers
+  minStars: number;
+  maxMonthsSincePush: number | null;
+  excludeArchived: boolean;
+  excludeForks: boolean;
+  excludeTemplates: boolean;
+  allowList: string[]; // Owners ("acme") or repos ("acme/widget"); only these are searched
+  blockList: string[]; // Owners or repos never recommended
+}
+
+export type ConstraintRule =
+  | 'requiredLanguage'
+  | 'forbiddenLanguage'
+  | 'license'
+  | 'minStars'
+  | 'maxAge'
+  | 'archived'
+  | 'fork'
+  | 'template'
+  | 'allowList'
+  | 'blockList';
+
+// A constraint a repository breaks
+export interface ConstraintViolation {
+  rule: ConstraintRule;
+  detail: string; // e.g. "GPL-3.0 is not an allowed license"
+}
+
+// A repository removed by the constraints, with every rule it breaks
+export interface ExcludedRepo {
+  repo: RepoSummary;
+  violations: ConstraintViolation[];
+}
+
+// Result facets the results view can filter on
+export type Facet = 'language' | 'license' | 'health' | 'stars' | 'coverage';
+
+export type ResultSort = 'score' | 'stars' | 'recency' | 'coverage';
+
+// Filters and sort order of the results view
+export interface ResultFilters {
+  text: string; // Matched against covered and missing deliverables
+  facets: Record<Facet, string[]>; // Selected values per facet; empty shows all
+  sort: ResultSort;
+}
+
+// License classes by what they require of software built on them
+export type LicenseClass = 'permissive' | 'weakCopyleft' | 'strongCopyleft' | 'networkCopyleft' | 'unknown';
+
+// How the client's deliverable reaches its users, which decides the licenses it can reuse
+export type DistributionModel = 'proprietary' | 'saas' | 'internal' | 'openSource';
+
+export type LicenseCompatibility = 'compatible' | 'review' | 'incompatible';
+
+// A repository's license, checked against the project's distribution model
+export interface LicenseAssessment {
+  license: string | null; // SPDX identifier; null when none was detected
+  licenseClass: LicenseClass;
+  distributionModel: DistributionModel | null; // Null when the project has not said
+  compatibility: LicenseCompatibility;
+  reason: string; // e.g. "AGPL-3.0 requires releasing the source of a hosted service"
+}
+
+// Factors combined into a repository's ranking score
+export type RankingFactor = 'fit' | 'recency' | 'popularity' | 'license' | 'status' | 'language';
+
+// Relative weight of each ranking factor; 0 leaves a factor out
+export type RankingWeights = Record<RankingFactor, number>;
+
+// One factor's share of a ranking score
+export interface ScoreComponent {
+  factor: RankingFactor;
+  value: number; // 0-1
+  weight: number;
+  points: number; // Contribution to the total
+  detail: string; // e.g. "Pushed 3 months ago"
+}
+
+export interface RankingScore {
+  total: number; // 0-100
+  components: ScoreComponent[];
+}
+
+// Signals combined into a repository's health score
+export type HealthSignalKey = 'commits' | 'releases' | 'responsiveness' | 'issues' | 'busFactor';
+
+export type HealthLabel = 'healthy' | 'fair' | 'poor' | 'archived';
+
+// One signal's share of a health score
+export interface HealthSignal {
+  signal: HealthSignalKey;
+  value: number; // 0-1
+  weight: number;
+  points: number; // Contribution to the total
+  detail: string; // e.g. "214 commits in the last year, in 41 of 52 weeks"
+}
+
+// Health of a repository, from its activity rather than its last update
+export interface HealthReport {
+  score: number; // 0-100
+  label: HealthLabel;
+  signals: HealthSignal[];
+}
+
+// Package ecosystems whose dependency manifests are read
+export type Ecosystem = 'npm' | 'pypi' | 'rubygems' | 'go' | 'composer' | 'nuget';
+
+export type RuntimeName = 'Node.js' | 'Python' | 'Ruby' | 'Go' | 'PHP' | '.NET' | '.NET Framework';
+
+// A runtime version a repository's manifest requires
+export interface RuntimeVersion {
+  runtime: RuntimeName;
+  version: string; // As written, e.g. ">=18" or "net6.0"
+  path: string; // Manifest it was read from
+  endOfLife: string | null; // Date support ended (YYYY-MM-DD); null while supported or unknown
+}
+
+// A framework the repository is built on, with how far behind it is
+export interface FrameworkVersion {
+  framework: string; // e.g. "React"
+  name: string; // Package name
+  declared: string | null;
+  latest: string | null; // Null when the registry could not be reached
+  majorsBehind: number | null;
+  path: string;
+}
+
+// A dependency whose declared major version is behind the registry's latest
+export interface OutdatedDependency {
+  name: string;
+  ecosystem: Ecosystem;
+  declared: string;
+  latest: string;
+  majorsBehind: number;
+}
+
+// What a repository's manifests say it would bring into the project
+export interface DependencyReport {
+  manifests: string[]; // Paths read
+  runtimes: RuntimeVersion[];
+  frameworks: FrameworkVersion[];
+  dependencies: number; // Direct runtime dependencies
+  devDependencies: number;
+  checked: number; // Dependencies looked up in their registries
+  outdated: OutdatedDependency[]; // Most majors behind first
+  risks: string[]; // Concrete statements for the fit analysis, e.g. "React 15 (latest 19), needs migration"
+}
+
+// Source size of one language in a repository's tree
+export interface LanguageSize {
+  language: string;
+  files: number;
+  bytes: number;
+}
+
+// What a repository's file tree says about its maturity
+export interface RepoFingerprint {
+  files: number; // Files in the tree
+  truncated: boolean; // GitHub cut the tree short, so counts are lower bounds
+  frameworks: string[]; // From the manifests and framework marker files
+  tests: { files: number; frameworks: string[] };
+  ci: string[]; // e.g. "GitHub Actions"
+  docker: string[]; // Paths of Dockerfiles and compose files
+  migrations: { files: number; dirs: string[] };
+  i18n: { files: number; locales: string[] };
+  docs: { dir: string; files: number } | null;
+  languages: LanguageSize[]; // Largest first
+}
+
+// Whether a repository implements an integration the SOW requires
+export type IntegrationStatus = 'verified' | 'mentioned' | 'absent';
+
+// A file backing an integration check
+export interface IntegrationEvidence {
+  kind: 'dependency' | 'code' | 'docs';
+  path: string;
+  url: string;
+  detail: string; // e.g. "stripe ^14.5.0" or "Mentions twilio"
+}
+
+// An integration from the SOW, checked against the repository's contents
+export interface IntegrationCheck {
+  integration: string; // Requirement text from the SOW
+  vendor: string | null; // Recognised product, e.g. "Stripe"
+  keyword: string | null; // What was searched for; null when nothing could be searched
+  status: IntegrationStatus;
+  evidence: IntegrationEvidence[];
+}
+
+// A section of a repository's README or top-level docs, split at its headings
+export interface DocSection {
+  id: string; // "S1", "S2"..., cited by covers claims
+  path: string; // File the section is in, e.g. "README.md" or "docs/setup.md"
+  heading: string; // Heading trail, e.g. "Features > Payments"; "Introduction" before the first heading
+  url: string; // Link to the heading on GitHub
+  text: string;
 }
 
 // Detailed repository information
@@ -54,19 +413,36 @@ export interface RepoDetail {
   openIssues: number;
   contributors: number;
   lastCommit: string;
-  healthStatus: 'active' | 'stale' | 'abandoned';
+  health: HealthReport | null; // Null until fetched, or when no signal could be read
+
+  // License, checked against the distribution model
+  license: LicenseAssessment;
 
   // README
   readmeSummary: string;
 
+  // README and docs sections the fit analysis was given, in document order
+  docSections: DocSection[];
+
+  // SOW integrations checked against manifests and code
+  integrations: IntegrationCheck[];
+
+  // Runtimes, frameworks and dependency age from the manifests; null when there are none
+  dependencies: DependencyReport | null;
+
+  // Tests, CI, Docker, docs and size from the file tree; null when the tree could not be read
+  fingerprint: RepoFingerprint | null;
+
   // SOW Fit Analysis (LLM-generated)
   fitAnalysis: {
     covers: string[];
+    coverSources: string[][]; // IDs of the docSections backing each covers item
     gaps: string[];
     timeSaved: string;
     recommendedModifications: string[];
     risks: string[];
   };
+  degraded: boolean; // True when the fit analysis is a fallback
 }
 
 // Application state interface
@@ -75,14 +451,22 @@ export interface AppState {
   currentStep: Step;
   setCurrentStep: (step: Step) => void;
 
-  // SOW content
-  sowContent: string | null;
-  filename: string | null;
-  setSOWContent: (content: string, filename?: string) => void;
+  // SOW documents (master SOW plus addenda, change orders, appendices)
+  documents: SOWDocument[];
+  setDocuments: (documents: SOWDocument[]) => void;
+
+  // Redaction - custom terms to redact, and what was redacted from the SOW,
+  // the answers and the additional context
+  redactionTerms: string[];
+  setRedactionTerms: (terms: string[]) => void;
+  redactions: Redaction[];
+  setRedactions: (redactions: Redaction[]) => void;
+  addRedactions: (redactions: Redaction[]) => void;
 
   // Analysis
   analysis: SOWAnalysis | null;
   setAnalysis: (analysis: SOWAnalysis) => void;
+  setDeliverablePriority: (deliverableId: string, priority: Priority) => void;
 
   // Question answers
   questionAnswers: Record<string, string>;
@@ -95,6 +479,34 @@ export interface AppState {
   // Search results
   searchResults: RepoResult[];
   setSearchResults: (results: RepoResult[]) => void;
+  searchProgress: SearchProgress | null;
+  beginSearch: () => void;
+  setSearchProgress: (progress: SearchProgress) => void;
+  addSearchResult: (result: RepoResult) => void;
+  beginDeeperSearch: () => void;
+  completeSearch: (round: SearchRound) => void;
+  searchCursor: SearchCursor | null;
+  resultsPage: number; // Page of the results list, kept while viewing a repo's details
+  setResultsPage: (page: number) => void;
+  resultFilters: ResultFilters; // Kept while viewing a repo's details
+  setResultFilters: (filters: ResultFilters) => void;
+  excludedResults: ExcludedRepo[]; // Repos removed by the constraints
+  unanalyzedResults: RepoResult[]; // Repos whose coverage analysis failed
+  setUnanalyzedResults: (results: RepoResult[]) => void;
+  addUnanalyzedResult: (result: RepoResult) => void;
+  resolveUnanalyzedResult: (result: RepoResult, relevant: boolean) => void;
+
+  // Constraints every candidate repository must meet
+  constraints: SearchConstraints;
+  setConstraints: (constraints: SearchConstraints) => void;
+
+  // How the deliverable is distributed; null infers it from the answers and context
+  distributionModel: DistributionModel | null;
+  setDistributionModel: (model: DistributionModel | null) => void;
+
+  // Ranking weights for search results
+  rankingWeights: RankingWeights;
+  setRankingWeights: (weights: RankingWeights) => void;
 
   // Selected repo for detail view
   selectedRepo: RepoDetail | null;